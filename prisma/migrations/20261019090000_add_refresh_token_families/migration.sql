@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "RefreshTokenFamily" (
+    "id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RefreshTokenFamily_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RefreshToken" (
+    "id" UUID NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "family_id" UUID NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RefreshToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RefreshTokenFamily_id_key" ON "RefreshTokenFamily"("id");
+
+-- CreateIndex
+CREATE INDEX "RefreshTokenFamily_user_id_idx" ON "RefreshTokenFamily"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RefreshToken_id_key" ON "RefreshToken"("id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RefreshToken_token_hash_key" ON "RefreshToken"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "RefreshToken_family_id_idx" ON "RefreshToken"("family_id");
+
+-- AddForeignKey
+ALTER TABLE "RefreshTokenFamily" ADD CONSTRAINT "RefreshTokenFamily_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RefreshToken" ADD CONSTRAINT "RefreshToken_family_id_fkey" FOREIGN KEY ("family_id") REFERENCES "RefreshTokenFamily"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "UserTokenType" AS ENUM ('PASSWORD_RESET');
+
+-- CreateTable
+CREATE TABLE "UserToken" (
+    "id" UUID NOT NULL,
+    "type" "UserTokenType" NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "user_id" UUID NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserToken_id_key" ON "UserToken"("id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserToken_token_hash_key" ON "UserToken"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "UserToken_user_id_type_idx" ON "UserToken"("user_id", "type");
+
+-- AddForeignKey
+ALTER TABLE "UserToken" ADD CONSTRAINT "UserToken_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
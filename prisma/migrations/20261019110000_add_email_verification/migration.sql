@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "UserTokenType" ADD VALUE 'EMAIL_VERIFICATION';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "emailVerifiedAt" TIMESTAMP(3);
+
+-- Accounts created before verification existed are treated as verified
+UPDATE "User" SET "emailVerifiedAt" = CURRENT_TIMESTAMP;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "PersonalAccessToken" (
+    "id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "scopes" TEXT[],
+    "user_id" UUID NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "lastUsedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PersonalAccessToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PersonalAccessToken_id_key" ON "PersonalAccessToken"("id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PersonalAccessToken_token_hash_key" ON "PersonalAccessToken"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "PersonalAccessToken_user_id_idx" ON "PersonalAccessToken"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "PersonalAccessToken" ADD CONSTRAINT "PersonalAccessToken_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "RefreshTokenFamily" ADD COLUMN     "ip_address" TEXT,
+ADD COLUMN     "lastUsedAt" TIMESTAMP(3),
+ADD COLUMN     "userAgent" TEXT;
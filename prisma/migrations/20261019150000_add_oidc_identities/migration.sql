@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "UserIdentity" (
+    "id" UUID NOT NULL,
+    "provider" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "email" TEXT,
+    "user_id" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserIdentity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OidcAuthorizationRequest" (
+    "state" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "code_verifier" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OidcAuthorizationRequest_pkey" PRIMARY KEY ("state")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserIdentity_id_key" ON "UserIdentity"("id");
+
+-- CreateIndex
+CREATE INDEX "UserIdentity_user_id_idx" ON "UserIdentity"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserIdentity_provider_subject_key" ON "UserIdentity"("provider", "subject");
+
+-- AddForeignKey
+ALTER TABLE "UserIdentity" ADD CONSTRAINT "UserIdentity_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,105 @@
+-- CreateTable
+CREATE TABLE "Role" (
+    "id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isSystem" BOOLEAN NOT NULL DEFAULT false,
+    "updatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Role_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Permission" (
+    "id" UUID NOT NULL,
+    "key" TEXT NOT NULL,
+    "description" TEXT,
+
+    CONSTRAINT "Permission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RolePermission" (
+    "role_id" UUID NOT NULL,
+    "permission_id" UUID NOT NULL,
+
+    CONSTRAINT "RolePermission_pkey" PRIMARY KEY ("role_id","permission_id")
+);
+
+-- CreateTable
+CREATE TABLE "UserRole" (
+    "user_id" UUID NOT NULL,
+    "role_id" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserRole_pkey" PRIMARY KEY ("user_id","role_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Role_id_key" ON "Role"("id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Role_name_key" ON "Role"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Permission_id_key" ON "Permission"("id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Permission_key_key" ON "Permission"("key");
+
+-- CreateIndex
+CREATE INDEX "UserRole_role_id_idx" ON "UserRole"("role_id");
+
+-- AddForeignKey
+ALTER TABLE "RolePermission" ADD CONSTRAINT "RolePermission_role_id_fkey" FOREIGN KEY ("role_id") REFERENCES "Role"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RolePermission" ADD CONSTRAINT "RolePermission_permission_id_fkey" FOREIGN KEY ("permission_id") REFERENCES "Permission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserRole" ADD CONSTRAINT "UserRole_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserRole" ADD CONSTRAINT "UserRole_role_id_fkey" FOREIGN KEY ("role_id") REFERENCES "Role"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the permission catalogue and the default roles
+INSERT INTO "Permission" ("id", "key", "description") VALUES
+    (gen_random_uuid(), 'company:read', 'View own companies'),
+    (gen_random_uuid(), 'company:create', 'Create companies'),
+    (gen_random_uuid(), 'company:update', 'Update own companies'),
+    (gen_random_uuid(), 'company:delete', 'Archive own companies'),
+    (gen_random_uuid(), 'company:manage', 'Manage all companies'),
+    (gen_random_uuid(), 'project:read', 'View projects of own companies'),
+    (gen_random_uuid(), 'project:create', 'Create projects in own companies'),
+    (gen_random_uuid(), 'project:update', 'Update projects of own companies'),
+    (gen_random_uuid(), 'project:delete', 'Archive projects of own companies'),
+    (gen_random_uuid(), 'project:manage', 'Manage all projects'),
+    (gen_random_uuid(), 'task:read', 'View tasks the user reports or is assigned to'),
+    (gen_random_uuid(), 'task:create', 'Create tasks'),
+    (gen_random_uuid(), 'task:update', 'Update tasks the user reports or is assigned to'),
+    (gen_random_uuid(), 'task:delete', 'Archive tasks the user reports or is assigned to'),
+    (gen_random_uuid(), 'task:manage', 'Manage all tasks'),
+    (gen_random_uuid(), 'status:read', 'View statuses'),
+    (gen_random_uuid(), 'status:manage', 'Create, update and delete statuses'),
+    (gen_random_uuid(), 'priority:read', 'View priorities'),
+    (gen_random_uuid(), 'priority:manage', 'Create, update and delete priorities'),
+    (gen_random_uuid(), 'user:manage', 'Update and unlock other users'),
+    (gen_random_uuid(), 'role:manage', 'Manage roles and assign them to users');
+
+INSERT INTO "Role" ("id", "name", "description", "isDefault", "isSystem") VALUES
+    (gen_random_uuid(), 'super-admin', 'Full access to everything', false, true),
+    (gen_random_uuid(), 'user', 'Access to own companies, projects and tasks', true, true);
+
+INSERT INTO "RolePermission" ("role_id", "permission_id")
+SELECT r."id", p."id" FROM "Role" r CROSS JOIN "Permission" p
+WHERE r."name" = 'super-admin' OR p."key" NOT LIKE '%:manage';
+
+-- Every existing user keeps regular access, admins additionally become super admins
+INSERT INTO "UserRole" ("user_id", "role_id")
+SELECT u."id", r."id" FROM "User" u CROSS JOIN "Role" r
+WHERE r."name" = 'user' OR (r."name" = 'super-admin' AND u."isAdmin");
+
+-- AlterTable
+ALTER TABLE "User" DROP COLUMN "isAdmin";
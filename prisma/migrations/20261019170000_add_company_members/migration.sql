@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "CompanyMemberRole" AS ENUM ('OWNER', 'ADMIN', 'MEMBER', 'VIEWER');
+
+-- CreateTable
+CREATE TABLE "CompanyMember" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "role" "CompanyMemberRole" NOT NULL DEFAULT 'MEMBER',
+    "updatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CompanyMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CompanyMember_id_key" ON "CompanyMember"("id");
+
+-- CreateIndex
+CREATE INDEX "CompanyMember_user_id_idx" ON "CompanyMember"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CompanyMember_company_id_user_id_key" ON "CompanyMember"("company_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "CompanyMember" ADD CONSTRAINT "CompanyMember_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CompanyMember" ADD CONSTRAINT "CompanyMember_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing owners become the owning members of their companies
+INSERT INTO "CompanyMember" ("id", "company_id", "user_id", "role")
+SELECT gen_random_uuid(), "id", "owner_id", 'OWNER' FROM "Company" WHERE "owner_id" IS NOT NULL;
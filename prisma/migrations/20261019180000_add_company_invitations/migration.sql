@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "CompanyInvitation" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" "CompanyMemberRole" NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "invited_by_id" UUID,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "acceptedAt" TIMESTAMP(3),
+    "declinedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CompanyInvitation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CompanyInvitation_id_key" ON "CompanyInvitation"("id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CompanyInvitation_token_hash_key" ON "CompanyInvitation"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "CompanyInvitation_company_id_idx" ON "CompanyInvitation"("company_id");
+
+-- CreateIndex
+CREATE INDEX "CompanyInvitation_email_idx" ON "CompanyInvitation"("email");
+
+-- AddForeignKey
+ALTER TABLE "CompanyInvitation" ADD CONSTRAINT "CompanyInvitation_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CompanyInvitation" ADD CONSTRAINT "CompanyInvitation_invited_by_id_fkey" FOREIGN KEY ("invited_by_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "CompanyOwnershipTransfer" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "from_user_id" UUID,
+    "to_user_id" UUID NOT NULL,
+    "requested_by_id" UUID,
+    "completed_by_id" UUID,
+    "forced" BOOLEAN NOT NULL DEFAULT false,
+    "completedAt" TIMESTAMP(3),
+    "declinedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CompanyOwnershipTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CompanyOwnershipTransfer_id_key" ON "CompanyOwnershipTransfer"("id");
+
+-- CreateIndex
+CREATE INDEX "CompanyOwnershipTransfer_company_id_idx" ON "CompanyOwnershipTransfer"("company_id");
+
+-- CreateIndex
+CREATE INDEX "CompanyOwnershipTransfer_to_user_id_idx" ON "CompanyOwnershipTransfer"("to_user_id");
+
+-- AddForeignKey
+ALTER TABLE "CompanyOwnershipTransfer" ADD CONSTRAINT "CompanyOwnershipTransfer_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CompanyOwnershipTransfer" ADD CONSTRAINT "CompanyOwnershipTransfer_from_user_id_fkey" FOREIGN KEY ("from_user_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CompanyOwnershipTransfer" ADD CONSTRAINT "CompanyOwnershipTransfer_to_user_id_fkey" FOREIGN KEY ("to_user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CompanyOwnershipTransfer" ADD CONSTRAINT "CompanyOwnershipTransfer_requested_by_id_fkey" FOREIGN KEY ("requested_by_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CompanyOwnershipTransfer" ADD CONSTRAINT "CompanyOwnershipTransfer_completed_by_id_fkey" FOREIGN KEY ("completed_by_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
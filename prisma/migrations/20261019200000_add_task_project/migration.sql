@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "project_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "Task_project_id_idx" ON "Task"("project_id");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing tasks can't be matched to a project, so they stay unattached (and
+-- visible to their reporter and assignee) until someone moves them into one
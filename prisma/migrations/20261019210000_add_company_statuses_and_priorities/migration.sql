@@ -0,0 +1,61 @@
+-- AlterTable
+ALTER TABLE "Status" ADD COLUMN     "company_id" UUID;
+
+-- AlterTable
+ALTER TABLE "Priority" ADD COLUMN     "company_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "Status_company_id_idx" ON "Status"("company_id");
+
+-- CreateIndex
+CREATE INDEX "Priority_company_id_idx" ON "Priority"("company_id");
+
+-- AddForeignKey
+ALTER TABLE "Status" ADD CONSTRAINT "Status_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Priority" ADD CONSTRAINT "Priority_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- The existing global rows become the default set; every company gets its own copy
+ALTER TABLE "Status" ADD COLUMN "copied_from_id" UUID;
+ALTER TABLE "Priority" ADD COLUMN "copied_from_id" UUID;
+
+INSERT INTO "Status" ("id", "name", "company_id", "copied_from_id")
+SELECT gen_random_uuid(), s."name", c."id", s."id"
+FROM "Status" s CROSS JOIN "Company" c
+WHERE s."company_id" IS NULL;
+
+INSERT INTO "Priority" ("id", "name", "company_id", "copied_from_id")
+SELECT gen_random_uuid(), p."name", c."id", p."id"
+FROM "Priority" p CROSS JOIN "Company" c
+WHERE p."company_id" IS NULL;
+
+-- Tasks in a project switch to their company's copies; tasks without one keep the defaults
+UPDATE "Task" t SET "status_id" = s."id"
+FROM "Project" p, "Status" s
+WHERE t."project_id" = p."id"
+  AND s."company_id" = p."company_id"
+  AND s."copied_from_id" = t."status_id";
+
+UPDATE "Task" t SET "priority_id" = pr."id"
+FROM "Project" p, "Priority" pr
+WHERE t."project_id" = p."id"
+  AND pr."company_id" = p."company_id"
+  AND pr."copied_from_id" = t."priority_id";
+
+ALTER TABLE "Status" DROP COLUMN "copied_from_id";
+ALTER TABLE "Priority" DROP COLUMN "copied_from_id";
+
+-- Company admins manage their own statuses and priorities
+INSERT INTO "Permission" ("id", "key", "description") VALUES
+    (gen_random_uuid(), 'status:update', 'Create, update and delete statuses of own companies'),
+    (gen_random_uuid(), 'priority:update', 'Create, update and delete priorities of own companies');
+
+UPDATE "Permission" SET "description" = 'View default statuses and those of own companies' WHERE "key" = 'status:read';
+UPDATE "Permission" SET "description" = 'Manage default statuses and those of all companies' WHERE "key" = 'status:manage';
+UPDATE "Permission" SET "description" = 'View default priorities and those of own companies' WHERE "key" = 'priority:read';
+UPDATE "Permission" SET "description" = 'Manage default priorities and those of all companies' WHERE "key" = 'priority:manage';
+
+INSERT INTO "RolePermission" ("role_id", "permission_id")
+SELECT r."id", p."id" FROM "Role" r CROSS JOIN "Permission" p
+WHERE r."name" IN ('super-admin', 'user') AND p."key" IN ('status:update', 'priority:update');
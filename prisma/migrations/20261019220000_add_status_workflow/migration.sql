@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "StatusCategory" AS ENUM ('TODO', 'IN_PROGRESS', 'DONE');
+
+-- AlterTable
+ALTER TABLE "Status" ADD COLUMN     "category" "StatusCategory" NOT NULL DEFAULT 'TODO';
+
+-- CreateTable
+CREATE TABLE "StatusTransition" (
+    "id" UUID NOT NULL,
+    "from_status_id" UUID NOT NULL,
+    "to_status_id" UUID NOT NULL,
+    "assigneeOnly" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StatusTransition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StatusTransition_id_key" ON "StatusTransition"("id");
+
+-- CreateIndex
+CREATE INDEX "StatusTransition_to_status_id_idx" ON "StatusTransition"("to_status_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StatusTransition_from_status_id_to_status_id_key" ON "StatusTransition"("from_status_id", "to_status_id");
+
+-- AddForeignKey
+ALTER TABLE "StatusTransition" ADD CONSTRAINT "StatusTransition_from_status_id_fkey" FOREIGN KEY ("from_status_id") REFERENCES "Status"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StatusTransition" ADD CONSTRAINT "StatusTransition_to_status_id_fkey" FOREIGN KEY ("to_status_id") REFERENCES "Status"("id") ON DELETE CASCADE ON UPDATE CASCADE;
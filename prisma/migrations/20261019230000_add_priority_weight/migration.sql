@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Priority" ADD COLUMN     "color" TEXT,
+ADD COLUMN     "icon" TEXT,
+ADD COLUMN     "weight" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN     "archive_batch_id" UUID;
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "archive_batch_id" UUID;
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "archive_batch_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "Company_archive_batch_id_idx" ON "Company"("archive_batch_id");
+
+-- CreateIndex
+CREATE INDEX "Project_archive_batch_id_idx" ON "Project"("archive_batch_id");
+
+-- CreateIndex
+CREATE INDEX "Task_archive_batch_id_idx" ON "Task"("archive_batch_id");
@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "Comment" (
+    "id" UUID NOT NULL,
+    "task_id" UUID NOT NULL,
+    "author_id" UUID,
+    "body" TEXT NOT NULL,
+    "editedAt" TIMESTAMP(3),
+    "deletedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Comment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CommentMention" (
+    "comment_id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CommentMention_pkey" PRIMARY KEY ("comment_id","user_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Comment_id_key" ON "Comment"("id");
+
+-- CreateIndex
+CREATE INDEX "Comment_task_id_idx" ON "Comment"("task_id");
+
+-- CreateIndex
+CREATE INDEX "CommentMention_user_id_idx" ON "CommentMention"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "Comment" ADD CONSTRAINT "Comment_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Comment" ADD CONSTRAINT "Comment_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommentMention" ADD CONSTRAINT "CommentMention_comment_id_fkey" FOREIGN KEY ("comment_id") REFERENCES "Comment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommentMention" ADD CONSTRAINT "CommentMention_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Comment permissions; everyone but administrators gets the non-manage ones
+INSERT INTO "Permission" ("id", "key", "description") VALUES
+    (gen_random_uuid(), 'comment:read', 'View comments on accessible tasks'),
+    (gen_random_uuid(), 'comment:create', 'Comment on accessible tasks'),
+    (gen_random_uuid(), 'comment:update', 'Edit own comments'),
+    (gen_random_uuid(), 'comment:delete', 'Delete own comments and those on tasks of administered companies'),
+    (gen_random_uuid(), 'comment:manage', 'Edit and delete any comment');
+
+INSERT INTO "RolePermission" ("role_id", "permission_id")
+SELECT r."id", p."id" FROM "Role" r CROSS JOIN "Permission" p
+WHERE p."key" LIKE 'comment:%'
+  AND (r."name" = 'super-admin' OR (r."name" = 'user' AND p."key" <> 'comment:manage'));
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "TaskDependency" (
+    "id" UUID NOT NULL,
+    "blocker_id" UUID NOT NULL,
+    "blocked_id" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskDependency_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskDependency_id_key" ON "TaskDependency"("id");
+
+-- CreateIndex
+CREATE INDEX "TaskDependency_blocked_id_idx" ON "TaskDependency"("blocked_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskDependency_blocker_id_blocked_id_key" ON "TaskDependency"("blocker_id", "blocked_id");
+
+-- AddForeignKey
+ALTER TABLE "TaskDependency" ADD CONSTRAINT "TaskDependency_blocker_id_fkey" FOREIGN KEY ("blocker_id") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskDependency" ADD CONSTRAINT "TaskDependency_blocked_id_fkey" FOREIGN KEY ("blocked_id") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "Label" (
+    "id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT,
+    "company_id" UUID NOT NULL,
+    "updatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Label_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TaskLabel" (
+    "task_id" UUID NOT NULL,
+    "label_id" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskLabel_pkey" PRIMARY KEY ("task_id","label_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Label_id_key" ON "Label"("id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Label_company_id_name_key" ON "Label"("company_id", "name");
+
+-- CreateIndex
+CREATE INDEX "TaskLabel_label_id_idx" ON "TaskLabel"("label_id");
+
+-- AddForeignKey
+ALTER TABLE "Label" ADD CONSTRAINT "Label_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskLabel" ADD CONSTRAINT "TaskLabel_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskLabel" ADD CONSTRAINT "TaskLabel_label_id_fkey" FOREIGN KEY ("label_id") REFERENCES "Label"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Label permissions; everyone but administrators gets the non-manage ones
+INSERT INTO "Permission" ("id", "key", "description") VALUES
+    (gen_random_uuid(), 'label:read', 'View labels of own companies'),
+    (gen_random_uuid(), 'label:update', 'Create, update and delete labels of own companies'),
+    (gen_random_uuid(), 'label:manage', 'Manage labels of all companies');
+
+INSERT INTO "RolePermission" ("role_id", "permission_id")
+SELECT r."id", p."id" FROM "Role" r CROSS JOIN "Permission" p
+WHERE p."key" LIKE 'label:%'
+  AND (r."name" = 'super-admin' OR (r."name" = 'user' AND p."key" <> 'label:manage'));
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "completedAt" TIMESTAMP(3),
+ADD COLUMN     "dueDate" TIMESTAMP(3),
+ADD COLUMN     "overdueAt" TIMESTAMP(3),
+ADD COLUMN     "startDate" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Task_dueDate_idx" ON "Task"("dueDate");
+
+-- Tasks already done count as completed when they were last updated
+UPDATE "Task" t SET "completedAt" = COALESCE(t."updatedAt", t."createdAt", CURRENT_TIMESTAMP)
+FROM "Status" s
+WHERE s."id" = t."status_id" AND s."category" = 'DONE';
@@ -1,27 +1,39 @@
 import { Module } from '@nestjs/common';
+import { EventEmitterModule } from '@nestjs/event-emitter';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AuthModule } from './auth/auth.module';
 import { JwtStrategy } from './auth/strategies/jwt.strategy';
+import { CommentModule } from './comment/comment.module';
 import { CompanyModule } from './company/company.module';
 // import { LoggerModule } from './logger/logger.module';
 import { ConfigModule } from './config/config.module';
+import { LabelModule } from './label/label.module';
+import { MailerModule } from './mailer/mailer.module';
 import { PriorityModule } from './priority/priority.module';
 import { PrismaModule } from './prisma/prisma.module';
 import { ProjectModule } from './project/project.module';
+import { RoleModule } from './role/role.module';
 import { StatusModule } from './status/status.module';
 import { TaskModule } from './task/task.module';
 import { UserModule } from './user/user.module';
 
 @Module({
 	imports: [
+		EventEmitterModule.forRoot(),
+		ScheduleModule.forRoot(),
 		UserModule,
+		RoleModule,
 		AuthModule,
 		PrismaModule,
 		ConfigModule,
+		MailerModule,
 		CompanyModule,
 		ProjectModule,
 		TaskModule,
 		StatusModule,
 		PriorityModule,
+		LabelModule,
+		CommentModule,
 	],
 	controllers: [],
 	providers: [JwtStrategy],
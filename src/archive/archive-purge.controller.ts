@@ -0,0 +1,27 @@
+import { Body, Controller, Post, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiConsumes, ApiTags } from '@nestjs/swagger';
+import { plainToInstance } from 'class-transformer';
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { ArchivePurgeService } from './archive-purge.service';
+import { ArchivePurgeReportDto } from './dto/archive-purge-report.dto';
+import { PurgeArchiveDto } from './dto/purge-archive.dto';
+
+@Controller('archive')
+@ApiBearerAuth()
+@ApiTags('admin archive')
+export class ArchivePurgeController {
+	constructor(private readonly archivePurgeService: ArchivePurgeService) {}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Post('purge')
+	@UseGuards(JwtAuthGuard, PermissionsGuard)
+	@RequirePermissions('archive:manage')
+	async purge(@Body() dto: PurgeArchiveDto) {
+		const report = await this.archivePurgeService.purge(dto.dryRun ?? true);
+		return plainToInstance(ArchivePurgeReportDto, report, {
+			excludeExtraneousValues: true,
+		});
+	}
+}
@@ -0,0 +1,110 @@
+import { ConfigService } from 'src/config/config.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { ArchivePurgeService } from './archive-purge.service';
+
+const ids = (...values: string[]) => values.map((id) => ({ id }));
+
+describe('ArchivePurgeService', () => {
+	const models = ['comment', 'task', 'project', 'company', 'user'] as const;
+	let prisma: Record<
+		(typeof models)[number],
+		{ findMany: jest.Mock; deleteMany: jest.Mock }
+	> & { $transaction: jest.Mock };
+	let service: ArchivePurgeService;
+
+	const delegate = (model: string) => ({
+		findMany: jest.fn().mockResolvedValue([]),
+		// Tagged so the order of the deletes can be checked
+		deleteMany: jest.fn((args) => ({ model, ...args })),
+	});
+
+	beforeEach(() => {
+		prisma = {
+			comment: delegate('comment'),
+			task: delegate('task'),
+			project: delegate('project'),
+			company: delegate('company'),
+			user: delegate('user'),
+			$transaction: jest.fn(async (queries) => queries),
+		};
+		service = new ArchivePurgeService(
+			{ withArchived: prisma } as unknown as PrismaService,
+			{ archiveRetentionDays: 30 } as ConfigService,
+		);
+	});
+
+	it('deletes children before their parents', async () => {
+		prisma.company.findMany.mockResolvedValueOnce(ids('company'));
+		prisma.project.findMany.mockResolvedValue(ids('project'));
+		prisma.task.findMany.mockResolvedValue(ids('task'));
+		prisma.comment.findMany.mockResolvedValue(ids('comment'));
+		prisma.user.findMany.mockResolvedValue([
+			{ id: 'user', _count: { observedTasks: 0 } },
+		]);
+
+		const report = await service.purge();
+
+		const [deletes] = prisma.$transaction.mock.calls[0];
+		expect(deletes).toEqual(
+			models.map((model) => ({
+				model,
+				where: { id: { in: [model] } },
+			})),
+		);
+		expect(report).toMatchObject({
+			comments: ['comment'],
+			tasks: ['task'],
+			projects: ['project'],
+			companies: ['company'],
+			users: ['user'],
+		});
+	});
+
+	it('purges the projects and tasks of purged companies', async () => {
+		prisma.company.findMany.mockResolvedValueOnce(ids('company'));
+		prisma.project.findMany.mockResolvedValue(ids('project'));
+
+		await service.purge();
+
+		const [{ where }] = prisma.project.findMany.mock.calls[0];
+		expect(where.OR).toContainEqual({ companyId: { in: ['company'] } });
+		const [{ where: taskWhere }] = prisma.task.findMany.mock.calls[0];
+		expect(taskWhere.OR).toContainEqual({ projectId: { in: ['project'] } });
+	});
+
+	it('skips companies whose workflow is still used by remaining tasks', async () => {
+		prisma.company.findMany
+			.mockResolvedValueOnce(ids('used', 'unused'))
+			.mockResolvedValueOnce(ids('used'))
+			.mockResolvedValueOnce([]);
+
+		const report = await service.purge();
+
+		expect(report.companies).toEqual(['unused']);
+		expect(report.skippedCompanies).toEqual(['used']);
+		// Projects and tasks are looked up again without the skipped company
+		const [{ where }] = prisma.project.findMany.mock.calls[1];
+		expect(where.OR).toContainEqual({ companyId: { in: ['unused'] } });
+	});
+
+	it('skips users still reporting remaining tasks', async () => {
+		prisma.user.findMany.mockResolvedValue([
+			{ id: 'reporter', _count: { observedTasks: 1 } },
+			{ id: 'gone', _count: { observedTasks: 0 } },
+		]);
+
+		const report = await service.purge();
+
+		expect(report.users).toEqual(['gone']);
+		expect(report.skippedUsers).toEqual(['reporter']);
+	});
+
+	it('only reports what it would delete on a dry run', async () => {
+		prisma.comment.findMany.mockResolvedValue(ids('comment'));
+
+		const report = await service.purge(true);
+
+		expect(report).toMatchObject({ dryRun: true, comments: ['comment'] });
+		expect(prisma.$transaction).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,141 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ConfigService } from 'src/config/config.service';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+
+const toIds = (rows: { id: string }[]) => rows.map(({ id }) => id);
+
+/**
+ * Permanently removes users, companies, projects, tasks and comments
+ * archived longer than the retention period.
+ */
+@Injectable()
+export class ArchivePurgeService {
+	private logger = new Logger(ArchivePurgeService.name);
+
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly configService: ConfigService,
+	) {}
+
+	@Cron(CronExpression.EVERY_DAY_AT_3AM, { name: 'archive-purge' })
+	async purgeOnSchedule() {
+		if (!this.configService.archivePurgeEnabled) return;
+
+		const report = await this.purge();
+		this.logger.log(
+			`Purged ${report.comments.length} comments, ${report.tasks.length} tasks, ${report.projects.length} projects, ${report.companies.length} companies and ${report.users.length} users archived before ${report.cutoff.toISOString()}`,
+		);
+	}
+
+	/**
+	 * Deletes comments and tasks, then projects, then companies and users,
+	 * each together with the descendants of purged parents. Companies whose
+	 * statuses or priorities are still used by remaining tasks, and users
+	 * still reporting remaining tasks, are skipped since those relations
+	 * restrict deletes. Runs on `withArchived`, where deletes are permanent.
+	 */
+	async purge(dryRun = false) {
+		const cutoff = new Date();
+		cutoff.setDate(cutoff.getDate() - this.configService.archiveRetentionDays);
+		const expired = { deletedAt: { lt: cutoff } };
+
+		let companyIds = toIds(
+			await this.prismaService.withArchived.company.findMany({
+				where: expired,
+				select: { id: true },
+			}),
+		);
+		const skippedCompanyIds: string[] = [];
+		let projectIds: string[];
+		let taskIds: string[];
+		for (;;) {
+			projectIds = toIds(
+				await this.prismaService.withArchived.project.findMany({
+					where: {
+						OR: [expired, { companyId: { in: companyIds } }],
+					},
+					select: { id: true },
+				}),
+			);
+			taskIds = toIds(
+				await this.prismaService.withArchived.task.findMany({
+					where: {
+						OR: [expired, { projectId: { in: projectIds } }],
+					},
+					select: { id: true },
+				}),
+			);
+
+			const usedElsewhere = { some: { id: { notIn: taskIds } } };
+			const blockedIds = toIds(
+				await this.prismaService.withArchived.company.findMany({
+					where: {
+						id: { in: companyIds },
+						OR: [
+							{ statuses: { some: { tasks: usedElsewhere } } },
+							{ priorities: { some: { tasks: usedElsewhere } } },
+						],
+					},
+					select: { id: true },
+				}),
+			);
+			if (!blockedIds.length) break;
+
+			skippedCompanyIds.push(...blockedIds);
+			companyIds = companyIds.filter((id) => !blockedIds.includes(id));
+		}
+
+		const commentIds = toIds(
+			await this.prismaService.withArchived.comment.findMany({
+				where: expired,
+				select: { id: true },
+			}),
+		);
+
+		const users = await this.prismaService.withArchived.user.findMany({
+			where: expired,
+			select: {
+				id: true,
+				_count: {
+					select: { observedTasks: { where: { id: { notIn: taskIds } } } },
+				},
+			},
+		});
+		const userIds = toIds(users.filter(({ _count }) => !_count.observedTasks));
+		const skippedUserIds = toIds(
+			users.filter(({ _count }) => _count.observedTasks),
+		);
+
+		if (!dryRun)
+			await this.prismaService.withArchived.$transaction([
+				this.prismaService.withArchived.comment.deleteMany({
+					where: { id: { in: commentIds } },
+				}),
+				this.prismaService.withArchived.task.deleteMany({
+					where: { id: { in: taskIds } },
+				}),
+				this.prismaService.withArchived.project.deleteMany({
+					where: { id: { in: projectIds } },
+				}),
+				this.prismaService.withArchived.company.deleteMany({
+					where: { id: { in: companyIds } },
+				}),
+				this.prismaService.withArchived.user.deleteMany({
+					where: { id: { in: userIds } },
+				}),
+			]);
+
+		return {
+			dryRun,
+			cutoff,
+			comments: commentIds,
+			tasks: taskIds,
+			projects: projectIds,
+			companies: companyIds,
+			users: userIds,
+			skippedCompanies: skippedCompanyIds,
+			skippedUsers: skippedUserIds,
+		};
+	}
+}
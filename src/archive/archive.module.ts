@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ArchiveService } from './archive.service';
+import { ArchivePurgeController } from './archive-purge.controller';
+import { ArchivePurgeService } from './archive-purge.service';
+
+@Module({
+	controllers: [ArchivePurgeController],
+	providers: [ArchiveService, ArchivePurgeService],
+	exports: [ArchiveService],
+})
+export class ArchiveModule {}
@@ -0,0 +1,170 @@
+import { PrismaService } from 'src/prisma/prisma.service';
+import { ArchiveService } from './archive.service';
+
+type Row = {
+	id: string;
+	deletedAt: Date | null;
+	archiveBatchId: string | null;
+	[key: string]: unknown;
+};
+type Where = Record<string, unknown>;
+
+describe('ArchiveService', () => {
+	let tables: Record<'company' | 'project' | 'task', Row[]>;
+	let service: ArchiveService;
+
+	/** Enough of Prisma's where clauses for the queries under test. */
+	function matches(row: Row, where: Where): boolean {
+		return Object.entries(where).every(([key, value]) => {
+			if (key === 'project') {
+				const project = tables.project.find(({ id }) => id === row.projectId);
+				return !!project && matches(project, value as Where);
+			}
+			if (value && typeof value === 'object' && 'in' in value)
+				return (value.in as unknown[]).includes(row[key]);
+			return row[key] === value;
+		});
+	}
+
+	function delegate(table: Row[], relations: Record<string, Row[]> = {}) {
+		const findOne = (where: Where, include?: Record<string, unknown>) => {
+			const row = table.find((item) => matches(item, where));
+			if (!row) throw new Error('Not found');
+			const related = Object.keys(include ?? {}).map((name) => [
+				name,
+				relations[name].find(({ id }) => id === row[`${name}Id`]) ?? null,
+			]);
+			return { ...row, ...Object.fromEntries(related) };
+		};
+		return {
+			findUniqueOrThrow: jest.fn(async ({ where, include }) =>
+				findOne(where, include),
+			),
+			findMany: jest.fn(async ({ where }) =>
+				table.filter((row) => matches(row, where)),
+			),
+			update: jest.fn(async ({ where, data }) =>
+				Object.assign(
+					table.find((item) => matches(item, where)),
+					data,
+				),
+			),
+			updateMany: jest.fn(async ({ where, data }) => {
+				const rows = table.filter((row) => matches(row, where));
+				for (const row of rows) Object.assign(row, data);
+				return { count: rows.length };
+			}),
+		};
+	}
+
+	function row(id: string, fields: Record<string, unknown> = {}): Row {
+		return { id, deletedAt: null, archiveBatchId: null, ...fields };
+	}
+
+	beforeEach(() => {
+		tables = {
+			company: [row('company')],
+			project: [
+				row('project', { companyId: 'company' }),
+				row('other-project', { companyId: 'company' }),
+			],
+			task: [
+				row('task', { projectId: 'project', parentId: null }),
+				row('subtask', { projectId: 'project', parentId: 'task' }),
+				row('sub-subtask', { projectId: 'project', parentId: 'subtask' }),
+				row('other-task', { projectId: 'other-project', parentId: null }),
+			],
+		};
+		const tx = {
+			company: delegate(tables.company),
+			project: delegate(tables.project, { company: tables.company }),
+			task: delegate(tables.task, {
+				parent: tables.task,
+				project: tables.project,
+			}),
+		};
+		const withArchived = {
+			$transaction: jest.fn(async (callback) => callback(tx)),
+		};
+		service = new ArchiveService({ withArchived } as unknown as PrismaService);
+	});
+
+	const get = (table: keyof typeof tables, id: string) =>
+		tables[table].find((item) => item.id === id);
+
+	it('archives a company with its projects and tasks in one batch', async () => {
+		await service.archiveCompany('company');
+
+		const batchId = get('company', 'company').archiveBatchId;
+		expect(batchId).toEqual(expect.any(String));
+		for (const item of [...tables.project, ...tables.task])
+			expect(item).toMatchObject({
+				deletedAt: expect.any(Date),
+				archiveBatchId: batchId,
+			});
+	});
+
+	it('leaves items archived on their own out of the batch', async () => {
+		await service.archiveProject('other-project');
+		const ownBatchId = get('project', 'other-project').archiveBatchId;
+
+		await service.archiveCompany('company');
+		await service.restoreCompany('company');
+
+		expect(get('company', 'company').deletedAt).toBeNull();
+		expect(get('project', 'project').deletedAt).toBeNull();
+		expect(get('task', 'task').deletedAt).toBeNull();
+		expect(get('project', 'other-project')).toMatchObject({
+			deletedAt: expect.any(Date),
+			archiveBatchId: ownBatchId,
+		});
+		expect(get('task', 'other-task').archiveBatchId).toBe(ownBatchId);
+	});
+
+	it('archives all levels of subtasks with the task', async () => {
+		await service.archiveTask('task');
+
+		const batchId = get('task', 'task').archiveBatchId;
+		expect(get('task', 'subtask').archiveBatchId).toBe(batchId);
+		expect(get('task', 'sub-subtask').archiveBatchId).toBe(batchId);
+		expect(get('task', 'other-task').deletedAt).toBeNull();
+	});
+
+	it('keeps subtasks archived earlier in their own batch', async () => {
+		await service.archiveTask('subtask');
+		const subtaskBatchId = get('task', 'subtask').archiveBatchId;
+
+		await service.archiveTask('task');
+		await service.restoreTask('task');
+
+		expect(get('task', 'task').deletedAt).toBeNull();
+		expect(get('task', 'subtask').archiveBatchId).toBe(subtaskBatchId);
+		expect(get('task', 'sub-subtask').archiveBatchId).toBe(subtaskBatchId);
+	});
+
+	it('leaves already archived items as they are', async () => {
+		await service.archiveProject('project');
+		const archived = { ...get('project', 'project') };
+
+		await service.archiveProject('project');
+
+		expect(get('project', 'project')).toEqual(archived);
+	});
+
+	it("doesn't restore a task while its parent is archived", async () => {
+		await service.archiveTask('subtask');
+		await service.archiveTask('task');
+
+		await expect(service.restoreTask('subtask')).rejects.toThrow(
+			"Task can't be restored while its parent task is archived",
+		);
+	});
+
+	it("doesn't restore a project while its company is archived", async () => {
+		await service.archiveCompany('company');
+
+		await expect(service.restoreProject('project')).rejects.toThrow(
+			"Project can't be restored while its company is archived",
+		);
+	});
+});
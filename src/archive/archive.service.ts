@@ -0,0 +1,155 @@
+import { randomUUID } from 'node:crypto';
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+
+/**
+ * Archives companies, projects and tasks together with everything below them.
+ * Rows archived in one go share a batch id, so restoring brings back exactly
+ * that batch and leaves items archived on their own alone. Everything runs on
+ * `withArchived`, so archived rows are only skipped where it says so.
+ */
+@Injectable()
+export class ArchiveService {
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+	) {}
+
+	async archiveCompany(companyId: string) {
+		return this.prismaService.withArchived.$transaction(async (tx) => {
+			const company = await tx.company.findUniqueOrThrow({
+				where: { id: companyId },
+			});
+			if (company.deletedAt) return company;
+
+			const archived = this.newBatch();
+			await tx.task.updateMany({
+				where: { project: { companyId }, deletedAt: null },
+				data: archived,
+			});
+			await tx.project.updateMany({
+				where: { companyId, deletedAt: null },
+				data: archived,
+			});
+			return tx.company.update({ where: { id: companyId }, data: archived });
+		});
+	}
+
+	async restoreCompany(companyId: string) {
+		return this.prismaService.withArchived.$transaction(async (tx) => {
+			const company = await tx.company.findUniqueOrThrow({
+				where: { id: companyId },
+			});
+			if (!company.deletedAt) return company;
+
+			if (company.archiveBatchId)
+				await this.restoreBatch(tx, company.archiveBatchId);
+			return tx.company.update({
+				where: { id: companyId },
+				data: { deletedAt: null, archiveBatchId: null },
+			});
+		});
+	}
+
+	async archiveProject(projectId: string) {
+		return this.prismaService.withArchived.$transaction(async (tx) => {
+			const project = await tx.project.findUniqueOrThrow({
+				where: { id: projectId },
+			});
+			if (project.deletedAt) return project;
+
+			const archived = this.newBatch();
+			await tx.task.updateMany({
+				where: { projectId, deletedAt: null },
+				data: archived,
+			});
+			return tx.project.update({ where: { id: projectId }, data: archived });
+		});
+	}
+
+	async restoreProject(projectId: string) {
+		return this.prismaService.withArchived.$transaction(async (tx) => {
+			const project = await tx.project.findUniqueOrThrow({
+				where: { id: projectId },
+				include: { company: { select: { deletedAt: true } } },
+			});
+			if (!project.deletedAt) return project;
+			if (project.company?.deletedAt)
+				throw new BadRequestException(
+					"Project can't be restored while its company is archived",
+				);
+
+			if (project.archiveBatchId)
+				await this.restoreBatch(tx, project.archiveBatchId);
+			return tx.project.update({
+				where: { id: projectId },
+				data: { deletedAt: null, archiveBatchId: null },
+			});
+		});
+	}
+
+	async archiveTask(taskId: string) {
+		return this.prismaService.withArchived.$transaction(async (tx) => {
+			const task = await tx.task.findUniqueOrThrow({
+				where: { id: taskId },
+			});
+			if (task.deletedAt) return task;
+
+			const archived = this.newBatch();
+			// Subtasks archived earlier already took their own subtasks along
+			let level = [taskId];
+			while (level.length) {
+				const subtasks = await tx.task.findMany({
+					where: { parentId: { in: level }, deletedAt: null },
+					select: { id: true },
+				});
+				level = subtasks.map(({ id }) => id);
+				await tx.task.updateMany({
+					where: { id: { in: level } },
+					data: archived,
+				});
+			}
+			return tx.task.update({ where: { id: taskId }, data: archived });
+		});
+	}
+
+	async restoreTask(taskId: string) {
+		return this.prismaService.withArchived.$transaction(async (tx) => {
+			const task = await tx.task.findUniqueOrThrow({
+				where: { id: taskId },
+				include: {
+					parent: { select: { deletedAt: true } },
+					project: { select: { deletedAt: true } },
+				},
+			});
+			if (!task.deletedAt) return task;
+			if (task.parent?.deletedAt)
+				throw new BadRequestException(
+					"Task can't be restored while its parent task is archived",
+				);
+			if (task.project?.deletedAt)
+				throw new BadRequestException(
+					"Task can't be restored while its project is archived",
+				);
+
+			if (task.archiveBatchId) await this.restoreBatch(tx, task.archiveBatchId);
+			return tx.task.update({
+				where: { id: taskId },
+				data: { deletedAt: null, archiveBatchId: null },
+			});
+		});
+	}
+
+	private newBatch() {
+		return { deletedAt: new Date(), archiveBatchId: randomUUID() };
+	}
+
+	private async restoreBatch(
+		tx: Prisma.TransactionClient,
+		archiveBatchId: string,
+	) {
+		const restored = { deletedAt: null, archiveBatchId: null };
+		await tx.project.updateMany({ where: { archiveBatchId }, data: restored });
+		await tx.task.updateMany({ where: { archiveBatchId }, data: restored });
+	}
+}
@@ -0,0 +1,47 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+
+@Exclude()
+export class ArchivePurgeReportDto {
+	@Expose()
+	@ApiProperty()
+	dryRun: boolean;
+
+	@Expose()
+	@ApiProperty({ description: 'Items archived before this were purged' })
+	cutoff: Date;
+
+	@Expose()
+	@ApiProperty({ type: [String] })
+	comments: string[];
+
+	@Expose()
+	@ApiProperty({ type: [String] })
+	tasks: string[];
+
+	@Expose()
+	@ApiProperty({ type: [String] })
+	projects: string[];
+
+	@Expose()
+	@ApiProperty({ type: [String] })
+	companies: string[];
+
+	@Expose()
+	@ApiProperty({ type: [String] })
+	users: string[];
+
+	@Expose()
+	@ApiProperty({
+		type: [String],
+		description: 'Expired companies whose statuses or priorities are in use',
+	})
+	skippedCompanies: string[];
+
+	@Expose()
+	@ApiProperty({
+		type: [String],
+		description: 'Expired users still reporting remaining tasks',
+	})
+	skippedUsers: string[];
+}
@@ -0,0 +1,15 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { toBoolean } from 'src/common/utils/transform.util';
+
+export class PurgeArchiveDto {
+	@IsOptional()
+	@Transform(toBoolean)
+	@IsBoolean()
+	@ApiPropertyOptional({
+		description: 'Only report what would be removed',
+		default: true,
+	})
+	dryRun?: boolean;
+}
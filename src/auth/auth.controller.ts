@@ -1,13 +1,25 @@
 import {
 	Body,
 	Controller,
-	NotImplementedException,
+	HttpCode,
+	HttpStatus,
 	Post,
+	Req,
+	UseGuards,
 } from '@nestjs/common';
-import { ApiConsumes, ApiTags } from '@nestjs/swagger';
+import { ApiBearerAuth, ApiConsumes, ApiTags } from '@nestjs/swagger';
+import { IApiRequest } from 'src/common/interfaces/app-request.interface';
 import { AuthService } from './auth.service';
+import { ReqSessionMetadata } from './decorators/session-metadata.decorator';
+import { AuthForgotPasswordDto } from './dto/auth.forgot-password.dto';
+import { AuthRefreshDto } from './dto/auth.refresh.dto';
+import { AuthResetPasswordDto } from './dto/auth.reset-password.dto';
 import { AuthSignInDto } from './dto/auth.sign-in.dto';
+import { AuthSignInTwoFactorDto } from './dto/auth.sign-in-two-factor.dto';
 import { AuthSignUpDto } from './dto/auth.sign-up.dto';
+import { AuthVerifyEmailDto } from './dto/auth.verify-email.dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { SessionMetadata } from './types/session-metadata.type';
 
 @ApiTags('authorization')
 @Controller('auth')
@@ -19,8 +31,19 @@ export class AuthController {
 	signIn(
 		@Body()
 		data: AuthSignInDto,
+		@ReqSessionMetadata() metadata: SessionMetadata,
 	) {
-		return this.authService.signIn(data);
+		return this.authService.signIn(data, metadata);
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Post('signin/2fa')
+	signInTwoFactor(
+		@Body()
+		data: AuthSignInTwoFactorDto,
+		@ReqSessionMetadata() metadata: SessionMetadata,
+	) {
+		return this.authService.signInTwoFactor(data, metadata);
 	}
 
 	@ApiConsumes('application/x-www-form-urlencoded')
@@ -28,12 +51,55 @@ export class AuthController {
 	signUp(
 		@Body()
 		data: AuthSignUpDto,
+		@ReqSessionMetadata() metadata: SessionMetadata,
 	) {
-		return this.authService.signUp(data);
+		return this.authService.signUp(data, metadata);
 	}
 
+	@ApiConsumes('application/x-www-form-urlencoded')
 	@Post('refresh')
-	refresh(): void {
-		throw new NotImplementedException();
+	refresh(
+		@Body()
+		data: AuthRefreshDto,
+	) {
+		return this.authService.refresh(data);
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Post('password/forgot')
+	@HttpCode(HttpStatus.NO_CONTENT)
+	forgotPassword(
+		@Body()
+		data: AuthForgotPasswordDto,
+	) {
+		return this.authService.forgotPassword(data);
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Post('password/reset')
+	@HttpCode(HttpStatus.NO_CONTENT)
+	resetPassword(
+		@Body()
+		data: AuthResetPasswordDto,
+	) {
+		return this.authService.resetPassword(data);
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Post('email/verify')
+	@HttpCode(HttpStatus.NO_CONTENT)
+	verifyEmail(
+		@Body()
+		data: AuthVerifyEmailDto,
+	) {
+		return this.authService.verifyEmail(data);
+	}
+
+	@ApiBearerAuth()
+	@Post('email/resend')
+	@HttpCode(HttpStatus.NO_CONTENT)
+	@UseGuards(JwtAuthGuard)
+	resendVerificationEmail(@Req() { user }: IApiRequest) {
+		return this.authService.resendVerificationEmail(user.id);
 	}
 }
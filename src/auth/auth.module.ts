@@ -1,13 +1,58 @@
 import { Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
+import { CompanyModule } from 'src/company/company.module';
 import { ConfigService } from 'src/config/config.service';
+import { RoleModule } from 'src/role/role.module';
 import { UserModule } from 'src/user/user.module';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
+import { InMemoryLoginAttemptStore } from './login-attempt/in-memory-login-attempt.store';
+import { LoginAttemptService } from './login-attempt/login-attempt.service';
+import { LoginAttemptStore } from './login-attempt/login-attempt.store';
+import { LoginAttemptAdminController } from './login-attempt/login-attempt-admin.controller';
+import { OidcController } from './oidc/oidc.controller';
+import { OidcService } from './oidc/oidc.service';
+import { BcryptHasher } from './password/bcrypt.hasher';
+import { PASSWORD_HASHERS } from './password/password.hasher';
+import { PasswordService } from './password/password.service';
+import { PersonalAccessTokenController } from './personal-access-token/personal-access-token.controller';
+import { PersonalAccessTokenService } from './personal-access-token/personal-access-token.service';
+import { RefreshTokenService } from './refresh-token.service';
+import { SessionController } from './session.controller';
+import { SessionService } from './session.service';
+import { PersonalAccessTokenStrategy } from './strategies/personal-access-token.strategy';
+import { TwoFactorController } from './two-factor/two-factor.controller';
+import { TwoFactorService } from './two-factor/two-factor.service';
+import { UserTokenService } from './user-token.service';
 
 @Module({
-	controllers: [AuthController],
-	providers: [AuthService],
+	controllers: [
+		AuthController,
+		TwoFactorController,
+		PersonalAccessTokenController,
+		SessionController,
+		LoginAttemptAdminController,
+		OidcController,
+	],
+	providers: [
+		AuthService,
+		RefreshTokenService,
+		SessionService,
+		UserTokenService,
+		TwoFactorService,
+		PersonalAccessTokenService,
+		PersonalAccessTokenStrategy,
+		BcryptHasher,
+		{
+			provide: PASSWORD_HASHERS,
+			useFactory: (bcryptHasher: BcryptHasher) => [bcryptHasher],
+			inject: [BcryptHasher],
+		},
+		PasswordService,
+		{ provide: LoginAttemptStore, useClass: InMemoryLoginAttemptStore },
+		LoginAttemptService,
+		OidcService,
+	],
 	imports: [
 		JwtModule.register({
 			global: true,
@@ -16,6 +61,9 @@ import { AuthService } from './auth.service';
 			signOptions: { expiresIn: '60s' },
 		}),
 		UserModule,
+		RoleModule,
+		CompanyModule,
 	],
+	exports: [SessionService],
 })
 export class AuthModule {}
@@ -1,61 +1,283 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+	BadRequestException,
+	HttpException,
+	HttpStatus,
+	Inject,
+	Injectable,
+	NotFoundException,
+	UnauthorizedException,
+} from '@nestjs/common';
 import { JwtService, JwtSignOptions } from '@nestjs/jwt';
-import { User } from '@prisma/client';
-import { hash } from 'bcrypt';
+import { RefreshTokenFamily, User, UserTokenType } from '@prisma/client';
 import { JwtUserInfo } from 'src/common/types/jwt-user-info.type';
+import { CompanyInvitationService } from 'src/company/company-invitation.service';
 import { ConfigService } from 'src/config/config.service';
+import { MailerService } from 'src/mailer/mailer.service';
 import { UserService } from 'src/user/user.service';
-import { PrismaService } from './../prisma/prisma.service';
+import { PRISMA_CLIENT, PrismaService } from './../prisma/prisma.service';
+import { AuthForgotPasswordDto } from './dto/auth.forgot-password.dto';
+import { AuthRefreshDto } from './dto/auth.refresh.dto';
+import { AuthResetPasswordDto } from './dto/auth.reset-password.dto';
 import { AuthSignInDto } from './dto/auth.sign-in.dto';
+import { AuthSignInTwoFactorDto } from './dto/auth.sign-in-two-factor.dto';
 import { AuthSignUpDto } from './dto/auth.sign-up.dto';
+import { AuthVerifyEmailDto } from './dto/auth.verify-email.dto';
+import { LoginAttemptService } from './login-attempt/login-attempt.service';
+import { PasswordService } from './password/password.service';
+import { RefreshTokenService } from './refresh-token.service';
+import { SessionService } from './session.service';
+import { TwoFactorService } from './two-factor/two-factor.service';
+import { SessionMetadata } from './types/session-metadata.type';
+import { UserTokenService } from './user-token.service';
 
 @Injectable()
 export class AuthService {
 	constructor(
-		readonly _prismaService: PrismaService,
+		@Inject(PRISMA_CLIENT) readonly _prismaService: PrismaService,
 		private readonly jwtService: JwtService,
 		private readonly userService: UserService,
+		private readonly passwordService: PasswordService,
+		private readonly refreshTokenService: RefreshTokenService,
+		private readonly userTokenService: UserTokenService,
+		private readonly mailerService: MailerService,
 		private readonly configService: ConfigService,
+		private readonly twoFactorService: TwoFactorService,
+		private readonly sessionService: SessionService,
+		private readonly loginAttemptService: LoginAttemptService,
+		private readonly companyInvitationService: CompanyInvitationService,
 	) {}
 
-	generateJwtPair(user: User) {
-		const { id, name, isAdmin } = user;
-		const payload: JwtUserInfo = { id, name, isAdmin };
-		const accessTokenOptions: JwtSignOptions = { expiresIn: '8h' };
-		const refreshTokenOptions: JwtSignOptions = { expiresIn: '12h' };
+	async generateJwtPair(user: User, family: RefreshTokenFamily) {
+		const { id, name } = user;
+		const payload: JwtUserInfo = {
+			id,
+			name,
+			twoFactor: family.twoFactorVerified,
+		};
+		const accessTokenOptions: JwtSignOptions = {
+			expiresIn: '8h',
+			jwtid: family.id,
+		};
 
 		return {
 			accessToken: this.jwtService.sign(payload, accessTokenOptions),
-			refreshToken: this.jwtService.sign(payload, refreshTokenOptions),
+			refreshToken: await this.refreshTokenService.issue(family.id),
 		};
 	}
-	async signUp(data: AuthSignUpDto) {
-		const passwordHash = await hash(
-			data.password,
-			this.configService.passwordSalt,
-		);
+	async signUp(
+		{ invitationToken, ...data }: AuthSignUpDto,
+		metadata: SessionMetadata,
+	) {
+		const invitation = invitationToken
+			? await this.companyInvitationService.findByToken(
+					invitationToken,
+					data.email,
+				)
+			: null;
+		const passwordHash = await this.passwordService.hash(data.password);
 
-		const user = await this.userService.create({
-			...data,
-			password: passwordHash,
+		// The invitation link already proves the email address belongs to the user
+		const user = await this._prismaService.$transaction(async (tx) => {
+			const user = await this.userService.create(
+				{
+					...data,
+					password: passwordHash,
+					emailVerifiedAt: invitation ? new Date() : null,
+				},
+				undefined,
+				tx,
+			);
+			// No account is left behind without the membership it was invited to
+			if (invitation)
+				await this.companyInvitationService.join(invitation, user.id, tx);
+			return user;
 		});
+		if (!invitation) await this.sendVerificationEmail(user);
 
-		return this.generateJwtPair(user);
+		const session = await this.sessionService.create(user.id, metadata);
+		return this.generateJwtPair(user, session);
 	}
 
-	async signIn(data: AuthSignInDto) {
-		const { password } = data;
-		const hashedPassword = await hash(
-			password,
-			this.configService.passwordSalt,
+	async signIn(data: AuthSignInDto, metadata: SessionMetadata) {
+		await this.loginAttemptService.assertNotLocked(
+			data.email,
+			metadata.ipAddress,
 		);
 
 		const user = await this.userService.getOneByEmail(data.email);
-		if (!user || hashedPassword !== user.password)
+		const { valid, needsRehash } =
+			user && !user.deletedAt
+				? await this.passwordService.verify(data.password, user.password)
+				: { valid: false, needsRehash: false };
+		if (!valid) {
+			await this.loginAttemptService.recordFailure(
+				data.email,
+				metadata.ipAddress,
+			);
+			throw new NotFoundException('User does not exist');
+		}
+
+		if (needsRehash)
+			await this.userService.update(user.id, {
+				password: await this.passwordService.hash(data.password),
+			});
+
+		return this.completeSignIn(user, metadata);
+	}
+
+	/**
+	 * Finishes a sign-in whose first factor was verified: either issues the
+	 * token pair or, with 2FA enabled, a challenge for the second step.
+	 */
+	async completeSignIn(user: User, metadata: SessionMetadata) {
+		if (user.twoFactorEnabledAt) {
+			const challengeToken = await this.userTokenService.issue(
+				user.id,
+				UserTokenType.TWO_FACTOR_CHALLENGE,
+				this.configService.twoFactorChallengeTtlMinutes,
+			);
+			// Counters are only reset once the second factor is verified too
+			return { twoFactorRequired: true, challengeToken };
+		}
+		await this.loginAttemptService.recordSuccess(user.email);
+
+		const session = await this.sessionService.create(user.id, metadata);
+		return this.generateJwtPair(user, session);
+	}
+
+	async signInTwoFactor(
+		data: AuthSignInTwoFactorDto,
+		metadata: SessionMetadata,
+	) {
+		const { userId } = await this.userTokenService.find(
+			data.challengeToken,
+			UserTokenType.TWO_FACTOR_CHALLENGE,
+		);
+
+		const user = await this.userService.getOneById(userId);
+		if (!user || user.deletedAt)
 			throw new NotFoundException('User does not exist');
 
-		if (user.deletedAt) throw new NotFoundException('User does not exist');
+		await this.loginAttemptService.assertNotLocked(
+			user.email,
+			metadata.ipAddress,
+		);
+		if (!(await this.twoFactorService.verify(user, data))) {
+			await this.loginAttemptService.recordFailure(
+				user.email,
+				metadata.ipAddress,
+			);
+			throw new UnauthorizedException('Invalid two-factor code');
+		}
+		await this.loginAttemptService.recordSuccess(user.email);
+
+		await this.userTokenService.consume(
+			data.challengeToken,
+			UserTokenType.TWO_FACTOR_CHALLENGE,
+		);
+		const session = await this.sessionService.create(user.id, {
+			...metadata,
+			twoFactorVerified: true,
+		});
+		return this.generateJwtPair(user, session);
+	}
+
+	async refresh(data: AuthRefreshDto) {
+		const family = await this.refreshTokenService.consume(data.refreshToken);
+
+		const user = await this.userService.getOneById(family.userId);
+		if (!user || user.deletedAt) {
+			await this.sessionService.revoke(family.id);
+			throw new UnauthorizedException('User does not exist');
+		}
+		await this.sessionService.touch(family.id);
+
+		return this.generateJwtPair(user, family);
+	}
+
+	async forgotPassword(data: AuthForgotPasswordDto) {
+		const user = await this.userService.getOneByEmail(data.email);
+		// Respond the same way for unknown emails to avoid account enumeration
+		if (!user || user.deletedAt) return;
 
-		return this.generateJwtPair(user);
+		const token = await this.userTokenService.issue(
+			user.id,
+			UserTokenType.PASSWORD_RESET,
+			this.configService.passwordResetTtlMinutes,
+		);
+		const link = `${this.configService.appUrl}/password/reset?token=${token}`;
+
+		await this.mailerService.send({
+			to: user.email,
+			subject: 'Password reset',
+			text: `Use the link below to set a new password. It expires in ${this.configService.passwordResetTtlMinutes} minutes.\n\n${link}`,
+		});
+	}
+
+	async resetPassword(data: AuthResetPasswordDto) {
+		const { userId } = await this.userTokenService.consume(
+			data.token,
+			UserTokenType.PASSWORD_RESET,
+		);
+
+		await this.userService.update(userId, {
+			password: await this.passwordService.hash(data.password),
+		});
+		await this.sessionService.revokeAll(userId);
+	}
+
+	async verifyEmail(data: AuthVerifyEmailDto) {
+		const { userId } = await this.userTokenService.consume(
+			data.token,
+			UserTokenType.EMAIL_VERIFICATION,
+		);
+
+		await this.userService.update(userId, { emailVerifiedAt: new Date() });
+	}
+
+	async resendVerificationEmail(userId: string) {
+		const user = await this.userService.getOneById(userId);
+		if (!user || user.deletedAt)
+			throw new NotFoundException('User does not exist');
+		if (user.emailVerifiedAt)
+			throw new BadRequestException('Email address is already verified');
+
+		const latestToken = await this.userTokenService.getLatest(
+			user.id,
+			UserTokenType.EMAIL_VERIFICATION,
+		);
+		if (latestToken) {
+			const cooldownEndsAt =
+				latestToken.createdAt.getTime() +
+				this.configService.emailVerificationCooldownSeconds * 1000;
+			const retryAfter = Math.ceil((cooldownEndsAt - Date.now()) / 1000);
+			if (retryAfter > 0)
+				throw new HttpException(
+					{
+						statusCode: HttpStatus.TOO_MANY_REQUESTS,
+						error: 'Too Many Requests',
+						message: `Verification email was sent recently, try again in ${retryAfter} seconds`,
+						retryAfter,
+					},
+					HttpStatus.TOO_MANY_REQUESTS,
+				);
+		}
+
+		await this.sendVerificationEmail(user);
+	}
+
+	private async sendVerificationEmail(user: User) {
+		const token = await this.userTokenService.issue(
+			user.id,
+			UserTokenType.EMAIL_VERIFICATION,
+			this.configService.emailVerificationTtlMinutes,
+		);
+		const link = `${this.configService.appUrl}/email/verify?token=${token}`;
+
+		await this.mailerService.send({
+			to: user.email,
+			subject: 'Confirm your email address',
+			text: `Use the link below to confirm your email address.\n\n${link}`,
+		});
 	}
 }
@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+import { PermissionKey } from 'src/common/constants/permissions.constants';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+/** Permissions the user's roles must grant, all of them, to call the route. */
+export const RequirePermissions = (...permissions: PermissionKey[]) =>
+	SetMetadata(PERMISSIONS_KEY, permissions);
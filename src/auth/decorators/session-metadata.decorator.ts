@@ -0,0 +1,13 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { SessionMetadata } from '../types/session-metadata.type';
+
+export const ReqSessionMetadata = createParamDecorator(
+	(_data: unknown, context: ExecutionContext): SessionMetadata => {
+		const request = context.switchToHttp().getRequest<Request>();
+		return {
+			userAgent: request.headers['user-agent'],
+			ipAddress: request.ip,
+		};
+	},
+);
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { TokenScope } from 'src/common/constants/token-scopes.constants';
+
+export const TOKEN_SCOPE_KEY = 'tokenScope';
+
+/**
+ * Scope a personal access token needs for the route. Routes without it can
+ * only be called with a regular JWT.
+ */
+export const RequireTokenScope = (scope: TokenScope) =>
+	SetMetadata(TOKEN_SCOPE_KEY, scope);
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsNotEmpty } from 'class-validator';
+
+export class AuthForgotPasswordDto {
+	@IsEmail()
+	@IsNotEmpty()
+	@ApiProperty({
+		default: 'user@email.com',
+	})
+	email: string;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, Length } from 'class-validator';
+
+export class AuthResetPasswordDto {
+	@IsNotEmpty()
+	@IsString()
+	@ApiProperty()
+	token: string;
+	@IsNotEmpty()
+	@IsString()
+	@Length(8, 100)
+	@ApiProperty({
+		default: 'testpassword',
+	})
+	password: string;
+}
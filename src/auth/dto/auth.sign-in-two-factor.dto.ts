@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+import { AuthTwoFactorVerifyDto } from './auth.two-factor-verify.dto';
+
+export class AuthSignInTwoFactorDto extends AuthTwoFactorVerifyDto {
+	@IsNotEmpty()
+	@IsString()
+	@ApiProperty({
+		description: 'Challenge token returned by /auth/signin',
+	})
+	challengeToken: string;
+}
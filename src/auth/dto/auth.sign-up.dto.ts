@@ -33,4 +33,10 @@ export class AuthSignUpDto {
 		default: 'testpassword',
 	})
 	password: string;
+	@IsOptional()
+	@IsString()
+	@ApiPropertyOptional({
+		description: 'Token from a company invitation sent to this email',
+	})
+	invitationToken?: string;
 }
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNumberString, Length } from 'class-validator';
+
+export class AuthTwoFactorCodeDto {
+	@IsNumberString({ no_symbols: true })
+	@Length(6, 6)
+	@ApiProperty({
+		default: '123456',
+	})
+	code: string;
+}
@@ -0,0 +1,25 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+	IsNumberString,
+	IsOptional,
+	IsString,
+	Length,
+	ValidateIf,
+} from 'class-validator';
+
+export class AuthTwoFactorVerifyDto {
+	@ValidateIf((dto: AuthTwoFactorVerifyDto) => !dto.recoveryCode)
+	@IsNumberString({ no_symbols: true })
+	@Length(6, 6)
+	@ApiPropertyOptional({
+		description: 'Code from the authenticator app',
+		default: '123456',
+	})
+	code?: string;
+	@IsOptional()
+	@IsString()
+	@ApiPropertyOptional({
+		description: 'One of the recovery codes, used instead of a code',
+	})
+	recoveryCode?: string;
+}
@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class AuthVerifyEmailDto {
+	@IsNotEmpty()
+	@IsString()
+	@ApiProperty()
+	token: string;
+}
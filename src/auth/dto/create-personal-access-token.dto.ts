@@ -0,0 +1,43 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+	ArrayNotEmpty,
+	IsArray,
+	IsIn,
+	IsInt,
+	IsOptional,
+	IsString,
+	Length,
+	Max,
+	Min,
+} from 'class-validator';
+import {
+	TOKEN_SCOPES,
+	TokenScope,
+} from 'src/common/constants/token-scopes.constants';
+
+export class CreatePersonalAccessTokenDto {
+	@IsString()
+	@Length(1, 64)
+	@ApiProperty({ default: 'CI bot' })
+	name: string;
+	@IsArray()
+	@ArrayNotEmpty()
+	@IsIn(TOKEN_SCOPES, { each: true })
+	@ApiProperty({
+		description: 'Granted scopes, e.g. task:write or *:read',
+		enum: TOKEN_SCOPES,
+		isArray: true,
+		default: ['*:read'],
+	})
+	scopes: TokenScope[];
+	@IsOptional()
+	@Type(() => Number)
+	@IsInt()
+	@Min(1)
+	@Max(365)
+	@ApiPropertyOptional({
+		description: 'Days until the token expires, never when omitted',
+	})
+	expiresInDays?: number;
+}
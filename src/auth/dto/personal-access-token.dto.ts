@@ -0,0 +1,23 @@
+import { Exclude, Expose } from 'class-transformer';
+
+@Exclude()
+export class PersonalAccessTokenDto {
+	@Expose()
+	id: string;
+	@Expose()
+	name: string;
+	@Expose()
+	prefix: string;
+	@Expose()
+	scopes: string[];
+	@Expose()
+	expiresAt: Date;
+	@Expose()
+	lastUsedAt: Date;
+	@Expose()
+	revokedAt: Date;
+	@Expose()
+	createdAt: Date;
+	@Expose()
+	token?: string;
+}
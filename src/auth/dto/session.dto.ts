@@ -0,0 +1,19 @@
+import { Exclude, Expose } from 'class-transformer';
+
+@Exclude()
+export class SessionDto {
+	@Expose()
+	id: string;
+	@Expose()
+	userAgent: string;
+	@Expose()
+	ipAddress: string;
+	@Expose()
+	twoFactorVerified: boolean;
+	@Expose()
+	current: boolean;
+	@Expose()
+	lastUsedAt: Date;
+	@Expose()
+	createdAt: Date;
+}
@@ -0,0 +1,15 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class AccountLockedException extends HttpException {
+	constructor(retryAfter: number) {
+		super(
+			{
+				statusCode: HttpStatus.TOO_MANY_REQUESTS,
+				error: 'Too Many Requests',
+				message: `Too many failed sign-in attempts, try again in ${retryAfter} seconds`,
+				retryAfter,
+			},
+			HttpStatus.TOO_MANY_REQUESTS,
+		);
+	}
+}
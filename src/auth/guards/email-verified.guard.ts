@@ -0,0 +1,31 @@
+import {
+	CanActivate,
+	ExecutionContext,
+	ForbiddenException,
+	Inject,
+	Injectable,
+} from '@nestjs/common';
+import { IApiRequest } from 'src/common/interfaces/app-request.interface';
+import { ConfigService } from 'src/config/config.service';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+
+@Injectable()
+export class EmailVerifiedGuard implements CanActivate {
+	constructor(
+		private readonly configService: ConfigService,
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+	) {}
+
+	async canActivate(context: ExecutionContext) {
+		if (!this.configService.requireEmailVerification) return true;
+
+		const { user } = context.switchToHttp().getRequest<IApiRequest>();
+		const { emailVerifiedAt } = await this.prismaService.user.findUniqueOrThrow(
+			{ where: { id: user.id }, select: { emailVerifiedAt: true } },
+		);
+		if (!emailVerifiedAt)
+			throw new ForbiddenException('Email address is not verified');
+
+		return true;
+	}
+}
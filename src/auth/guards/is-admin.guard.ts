@@ -1,12 +0,0 @@
-import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
-import { Observable } from 'rxjs';
-
-@Injectable()
-export class IsAdminGuard implements CanActivate {
-	canActivate(
-		context: ExecutionContext,
-	): boolean | Promise<boolean> | Observable<boolean> {
-		const { user } = context.switchToHttp().getRequest();
-		return user.isAdmin;
-	}
-}
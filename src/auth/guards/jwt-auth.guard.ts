@@ -1,5 +1,44 @@
-import { Injectable } from '@nestjs/common';
+import {
+	ExecutionContext,
+	ForbiddenException,
+	Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
+import { IApiRequest } from 'src/common/interfaces/app-request.interface';
+import { TOKEN_SCOPE_KEY } from '../decorators/token-scope.decorator';
 
+/**
+ * Accepts a JWT access token or a personal access token. Personal access
+ * tokens are limited to routes whose scope they were granted.
+ */
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {}
+export class JwtAuthGuard extends AuthGuard(['jwt', 'personal-access-token']) {
+	constructor(private readonly reflector: Reflector) {
+		super();
+	}
+
+	async canActivate(context: ExecutionContext) {
+		if (!(await super.canActivate(context))) return false;
+
+		const { user } = context.switchToHttp().getRequest<IApiRequest>();
+		if (!user.scopes) return true;
+
+		const requiredScope = this.reflector.getAllAndOverride<string>(
+			TOKEN_SCOPE_KEY,
+			[context.getHandler(), context.getClass()],
+		);
+		if (!requiredScope || !this.hasScope(user.scopes, requiredScope))
+			throw new ForbiddenException('Token scope does not allow this action');
+
+		return true;
+	}
+
+	private hasScope(scopes: string[], requiredScope: string) {
+		const [resource, access] = requiredScope.split(':');
+		const acceptedScopes = [requiredScope, '*:write'];
+		if (access === 'read') acceptedScopes.push(`${resource}:write`, '*:read');
+
+		return scopes.some((scope) => acceptedScopes.includes(scope));
+	}
+}
@@ -0,0 +1,43 @@
+import {
+	CanActivate,
+	ExecutionContext,
+	ForbiddenException,
+	HttpStatus,
+	Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PermissionKey } from 'src/common/constants/permissions.constants';
+import { IApiRequest } from 'src/common/interfaces/app-request.interface';
+import { hasPermission } from 'src/common/utils/permission.util';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+
+/** Checks `@RequirePermissions`. Must run after `JwtAuthGuard`. */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+	constructor(private readonly reflector: Reflector) {}
+
+	canActivate(context: ExecutionContext) {
+		const permissions = this.reflector.getAllAndOverride<PermissionKey[]>(
+			PERMISSIONS_KEY,
+			[context.getHandler(), context.getClass()],
+		);
+		if (!permissions?.length) return true;
+
+		const { user } = context.switchToHttp().getRequest<IApiRequest>();
+		if (permissions.every((permission) => hasPermission(user, permission)))
+			return true;
+
+		// Admin roles only count in 2FA sessions, so say how to get them
+		if (user.twoFactorRequired)
+			throw new ForbiddenException({
+				statusCode: HttpStatus.FORBIDDEN,
+				error: 'Forbidden',
+				message:
+					user.twoFactorRequired === 'enroll'
+						? 'Enable two-factor authentication at /auth/2fa/enroll to use your admin permissions'
+						: 'Sign in with two-factor authentication to use your admin permissions',
+				twoFactorRequired: user.twoFactorRequired,
+			});
+		throw new ForbiddenException('Missing permission for this action');
+	}
+}
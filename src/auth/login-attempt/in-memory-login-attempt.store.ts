@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import { LoginAttemptRecord, LoginAttemptStore } from './login-attempt.store';
+
+@Injectable()
+export class InMemoryLoginAttemptStore extends LoginAttemptStore {
+	private readonly records = new Map<
+		string,
+		{ record: LoginAttemptRecord; expiresAt: number }
+	>();
+
+	async get(key: string) {
+		const entry = this.records.get(key);
+		if (!entry) return null;
+		if (entry.expiresAt <= Date.now()) {
+			this.records.delete(key);
+			return null;
+		}
+		return entry.record;
+	}
+
+	async set(key: string, record: LoginAttemptRecord, ttlMs: number) {
+		this.removeExpired();
+		this.records.set(key, { record, expiresAt: Date.now() + ttlMs });
+	}
+
+	async delete(key: string) {
+		this.records.delete(key);
+	}
+
+	private removeExpired() {
+		const now = Date.now();
+		for (const [key, entry] of this.records)
+			if (entry.expiresAt <= now) this.records.delete(key);
+	}
+}
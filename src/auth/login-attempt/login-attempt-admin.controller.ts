@@ -0,0 +1,37 @@
+import {
+	Controller,
+	HttpCode,
+	HttpStatus,
+	NotFoundException,
+	Param,
+	ParseUUIDPipe,
+	Post,
+	UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { UserService } from 'src/user/user.service';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { PermissionsGuard } from '../guards/permissions.guard';
+import { LoginAttemptService } from './login-attempt.service';
+
+@Controller('user')
+@ApiTags('admin user')
+@ApiBearerAuth()
+export class LoginAttemptAdminController {
+	constructor(
+		private readonly loginAttemptService: LoginAttemptService,
+		private readonly userService: UserService,
+	) {}
+
+	@Post(':userId/unlock')
+	@HttpCode(HttpStatus.NO_CONTENT)
+	@UseGuards(JwtAuthGuard, PermissionsGuard)
+	@RequirePermissions('user:manage')
+	async unlock(@Param('userId', ParseUUIDPipe) userId: string) {
+		const user = await this.userService.getOneById(userId);
+		if (!user) throw new NotFoundException('User does not exist');
+
+		await this.loginAttemptService.unlock(user.email);
+	}
+}
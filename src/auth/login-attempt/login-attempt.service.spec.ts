@@ -0,0 +1,90 @@
+import { ConfigService } from 'src/config/config.service';
+import { AccountLockedException } from '../exceptions/account-locked.exception';
+import { InMemoryLoginAttemptStore } from './in-memory-login-attempt.store';
+import { LoginAttemptService } from './login-attempt.service';
+
+describe('LoginAttemptService', () => {
+	const email = 'jane@example.com';
+	let now: number;
+	let service: LoginAttemptService;
+
+	beforeEach(() => {
+		now = 1_000_000;
+		jest.spyOn(Date, 'now').mockImplementation(() => now);
+		service = new LoginAttemptService(new InMemoryLoginAttemptStore(), {
+			maxLoginAttempts: 3,
+			maxLoginAttemptsPerIp: 10,
+			loginLockoutBaseSeconds: 30,
+			loginLockoutMaxSeconds: 100,
+		} as ConfigService);
+	});
+
+	afterEach(() => jest.restoreAllMocks());
+
+	async function fail(times: number, ipAddress?: string) {
+		for (let i = 0; i < times; i++)
+			await service.recordFailure(email, ipAddress);
+	}
+
+	/** Seconds the account stays locked, or 0 when it isn't. */
+	async function retryAfter(ipAddress?: string) {
+		try {
+			await service.assertNotLocked(email, ipAddress);
+			return 0;
+		} catch (error) {
+			expect(error).toBeInstanceOf(AccountLockedException);
+			const response = (error as AccountLockedException).getResponse();
+			return (response as { retryAfter: number }).retryAfter;
+		}
+	}
+
+	it('locks the account once the attempts are used up', async () => {
+		await fail(2);
+		expect(await retryAfter()).toBe(0);
+
+		await fail(1);
+		expect(await retryAfter()).toBe(30);
+	});
+
+	it('doubles the lockout with every further failure up to the maximum', async () => {
+		const lockouts: number[] = [];
+		for (let i = 0; i < 5; i++) {
+			await fail(i ? 1 : 3);
+			lockouts.push(await retryAfter());
+		}
+
+		expect(lockouts).toEqual([30, 60, 100, 100, 100]);
+	});
+
+	it('unlocks once the lockout has passed', async () => {
+		await fail(3);
+
+		now += 29_000;
+		expect(await retryAfter()).toBe(1);
+		now += 1_000;
+		expect(await retryAfter()).toBe(0);
+	});
+
+	it('starts over after a successful sign-in', async () => {
+		await fail(2);
+		await service.recordSuccess(email);
+		await fail(2);
+
+		expect(await retryAfter()).toBe(0);
+	});
+
+	it('keeps counting failures per IP across accounts', async () => {
+		for (let i = 0; i < 10; i++)
+			await service.recordFailure(`user-${i}@example.com`, '10.0.0.1');
+
+		expect(await retryAfter('10.0.0.1')).toBe(30);
+		expect(await retryAfter('10.0.0.2')).toBe(0);
+	});
+
+	it('lets admins lift the lockout', async () => {
+		await fail(3);
+		await service.unlock(email);
+
+		expect(await retryAfter()).toBe(0);
+	});
+});
@@ -0,0 +1,85 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from 'src/config/config.service';
+import { AccountLockedException } from '../exceptions/account-locked.exception';
+import { LoginAttemptStore } from './login-attempt.store';
+
+@Injectable()
+export class LoginAttemptService {
+	constructor(
+		private readonly loginAttemptStore: LoginAttemptStore,
+		private readonly configService: ConfigService,
+	) {}
+
+	async assertNotLocked(email: string, ipAddress?: string) {
+		const now = Date.now();
+		const lockedUntil = Math.max(
+			...(await Promise.all(
+				this.getKeys(email, ipAddress).map(async (key) => {
+					const record = await this.loginAttemptStore.get(key);
+					return record?.lockedUntil ?? 0;
+				}),
+			)),
+		);
+
+		if (lockedUntil > now)
+			throw new AccountLockedException(Math.ceil((lockedUntil - now) / 1000));
+	}
+
+	async recordFailure(email: string, ipAddress?: string) {
+		const { maxLoginAttempts, maxLoginAttemptsPerIp } = this.configService;
+
+		await this.increment(this.accountKey(email), maxLoginAttempts);
+		if (ipAddress)
+			await this.increment(this.ipKey(ipAddress), maxLoginAttemptsPerIp);
+	}
+
+	/** Resets the account counter. IP counters only expire on their own. */
+	async recordSuccess(email: string) {
+		await this.loginAttemptStore.delete(this.accountKey(email));
+	}
+
+	async unlock(email: string) {
+		await this.loginAttemptStore.delete(this.accountKey(email));
+	}
+
+	/**
+	 * Once `maxAttempts` is reached, every further failure doubles the lockout,
+	 * up to the configured maximum.
+	 */
+	private async increment(key: string, maxAttempts: number) {
+		const { loginLockoutBaseSeconds, loginLockoutMaxSeconds } =
+			this.configService;
+
+		const record = await this.loginAttemptStore.get(key);
+		const failures = (record?.failures ?? 0) + 1;
+
+		let lockedUntil: number | null = null;
+		if (failures >= maxAttempts) {
+			const lockoutSeconds = Math.min(
+				loginLockoutBaseSeconds * 2 ** (failures - maxAttempts),
+				loginLockoutMaxSeconds,
+			);
+			lockedUntil = Date.now() + lockoutSeconds * 1000;
+		}
+
+		await this.loginAttemptStore.set(
+			key,
+			{ failures, lockedUntil },
+			loginLockoutMaxSeconds * 2 * 1000,
+		);
+	}
+
+	private getKeys(email: string, ipAddress?: string) {
+		const keys = [this.accountKey(email)];
+		if (ipAddress) keys.push(this.ipKey(ipAddress));
+		return keys;
+	}
+
+	private accountKey(email: string) {
+		return `account:${email.toLowerCase()}`;
+	}
+
+	private ipKey(ipAddress: string) {
+		return `ip:${ipAddress}`;
+	}
+}
@@ -0,0 +1,20 @@
+export type LoginAttemptRecord = {
+	failures: number;
+	lockedUntil: number | null;
+};
+
+/**
+ * Storage for failed sign-in counters. Swap the in-memory implementation for a
+ * shared one (e.g. Redis) when running several instances.
+ */
+export abstract class LoginAttemptStore {
+	abstract get(key: string): Promise<LoginAttemptRecord | null>;
+
+	abstract set(
+		key: string,
+		record: LoginAttemptRecord,
+		ttlMs: number,
+	): Promise<void>;
+
+	abstract delete(key: string): Promise<void>;
+}
@@ -0,0 +1,59 @@
+import {
+	Controller,
+	Get,
+	Param,
+	Query,
+	Redirect,
+	Req,
+	Res,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { ReqSessionMetadata } from '../decorators/session-metadata.decorator';
+import { SessionMetadata } from '../types/session-metadata.type';
+import { OIDC_STATE_COOKIE, OidcService } from './oidc.service';
+
+@Controller('auth/oidc')
+@ApiTags('authorization')
+export class OidcController {
+	constructor(private readonly oidcService: OidcService) {}
+
+	@Get()
+	getProviders() {
+		return this.oidcService.getProviders();
+	}
+
+	@Get(':provider')
+	@Redirect()
+	async authorize(
+		@Param('provider') provider: string,
+		@Res({ passthrough: true }) res: Response,
+	) {
+		const { url, state, expiresAt } =
+			await this.oidcService.getAuthorizationUrl(provider);
+		res.cookie(OIDC_STATE_COOKIE, state, {
+			...this.oidcService.stateCookieOptions,
+			expires: expiresAt,
+		});
+		return { url };
+	}
+
+	@Get(':provider/callback')
+	callback(
+		@Param('provider') provider: string,
+		@Query() params: Record<string, string>,
+		@Req() req: Request,
+		@Res({ passthrough: true }) res: Response,
+		@ReqSessionMetadata() metadata: SessionMetadata,
+	) {
+		// Tampered cookies come back as `false` and fail the state check
+		const stateCookie = req.signedCookies[OIDC_STATE_COOKIE];
+		res.clearCookie(OIDC_STATE_COOKIE, this.oidcService.stateCookieOptions);
+		return this.oidcService.handleCallback(
+			provider,
+			params,
+			stateCookie,
+			metadata,
+		);
+	}
+}
@@ -0,0 +1,406 @@
+import {
+	createHash,
+	createSign,
+	generateKeyPairSync,
+	randomBytes,
+} from 'node:crypto';
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { User } from '@prisma/client';
+import { ConfigService } from 'src/config/config.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { UserService } from 'src/user/user.service';
+import { AuthService } from '../auth.service';
+import { PasswordService } from '../password/password.service';
+import { OidcService } from './oidc.service';
+import { OidcProviderConfig } from './types/oidc-provider-config.type';
+
+// Only the provider flow is under test; these are replaced by stubs below
+jest.mock('src/user/user.service', () => ({ UserService: class {} }));
+jest.mock('../auth.service', () => ({ AuthService: class {} }));
+
+const CLIENT_ID = 'boilerplate';
+const CLIENT_SECRET = 'secret';
+
+const DEFAULT_CLAIMS = {
+	sub: 'subject-1',
+	email: 'jane@example.com',
+	email_verified: true,
+	name: 'Jane',
+};
+
+const JANE = {
+	id: 'user-1',
+	email: 'jane@example.com',
+	emailVerifiedAt: new Date(),
+};
+
+type AuthorizationGrant = { nonce: string; codeChallenge: string };
+
+/**
+ * Minimal identity provider: discovery, JWKS and a token endpoint that
+ * checks the PKCE verifier and signs ID tokens with the stored nonce.
+ */
+class MockIdentityProvider {
+	readonly grants = new Map<string, AuthorizationGrant>();
+	claims: Record<string, unknown> = { ...DEFAULT_CLAIMS };
+	/** Signs ID tokens with this nonce instead of the requested one. */
+	nonceOverride?: string;
+
+	private readonly keys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+	private server: Server;
+
+	get issuer() {
+		return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+	}
+
+	async start() {
+		this.server = createServer((req, res) => {
+			this.handle(req).then(
+				([status, body]) => {
+					res.writeHead(status, { 'content-type': 'application/json' });
+					res.end(JSON.stringify(body));
+				},
+				() => {
+					res.writeHead(500);
+					res.end();
+				},
+			);
+		});
+		await new Promise<void>((resolve) =>
+			this.server.listen(0, '127.0.0.1', resolve),
+		);
+	}
+
+	stop() {
+		return new Promise((resolve) => this.server.close(resolve));
+	}
+
+	/** What the browser gets back after signing in at the authorization URL. */
+	authorize(authorizationUrl: string) {
+		const params = new URL(authorizationUrl).searchParams;
+		const code = randomBytes(8).toString('hex');
+		this.grants.set(code, {
+			nonce: params.get('nonce'),
+			codeChallenge: params.get('code_challenge'),
+		});
+		return { code, state: params.get('state') };
+	}
+
+	private async handle(req: IncomingMessage): Promise<[number, unknown]> {
+		if (req.url === '/.well-known/openid-configuration')
+			return [
+				200,
+				{
+					issuer: this.issuer,
+					authorization_endpoint: `${this.issuer}/authorize`,
+					token_endpoint: `${this.issuer}/token`,
+					jwks_uri: `${this.issuer}/jwks`,
+					response_types_supported: ['code'],
+					subject_types_supported: ['public'],
+					id_token_signing_alg_values_supported: ['RS256'],
+					code_challenge_methods_supported: ['S256'],
+				},
+			];
+		if (req.url === '/jwks')
+			return [
+				200,
+				{
+					keys: [
+						{
+							...this.keys.publicKey.export({ format: 'jwk' }),
+							kid: 'key-1',
+							use: 'sig',
+							alg: 'RS256',
+						},
+					],
+				},
+			];
+		if (req.url === '/token') return this.token(await readBody(req));
+		return [404, {}];
+	}
+
+	private token(body: URLSearchParams): [number, unknown] {
+		const grant = this.grants.get(body.get('code'));
+		this.grants.delete(body.get('code'));
+		const challenge = createHash('sha256')
+			.update(body.get('code_verifier') ?? '')
+			.digest('base64url');
+		if (!grant || grant.codeChallenge !== challenge)
+			return [400, { error: 'invalid_grant' }];
+
+		const now = Math.floor(Date.now() / 1000);
+		return [
+			200,
+			{
+				access_token: 'access-token',
+				token_type: 'Bearer',
+				expires_in: 300,
+				id_token: this.sign({
+					...this.claims,
+					iss: this.issuer,
+					aud: CLIENT_ID,
+					iat: now,
+					exp: now + 300,
+					nonce: this.nonceOverride ?? grant.nonce,
+				}),
+			},
+		];
+	}
+
+	private sign(claims: Record<string, unknown>) {
+		const encode = (value: unknown) =>
+			Buffer.from(JSON.stringify(value)).toString('base64url');
+		const input = `${encode({ alg: 'RS256', typ: 'JWT', kid: 'key-1' })}.${encode(claims)}`;
+		const signature = createSign('RSA-SHA256')
+			.update(input)
+			.sign(this.keys.privateKey, 'base64url');
+		return `${input}.${signature}`;
+	}
+}
+
+function readBody(req: IncomingMessage) {
+	return new Promise<URLSearchParams>((resolve, reject) => {
+		let body = '';
+		req.on('data', (chunk) => {
+			body += chunk;
+		});
+		req.on('end', () => resolve(new URLSearchParams(body)));
+		req.on('error', reject);
+	});
+}
+
+describe('OidcService', () => {
+	const idp = new MockIdentityProvider();
+	const metadata = { userAgent: 'jest', ipAddress: '127.0.0.1' };
+	let requests: Map<string, Record<string, unknown>>;
+	let identities: { provider: string; subject: string; userId: string }[];
+	let users: Partial<User>[];
+	let authService: { completeSignIn: jest.Mock };
+	let config: {
+		appUrl: string;
+		oidcProviders: OidcProviderConfig[];
+	};
+	let service: OidcService;
+
+	beforeAll(() => idp.start());
+	afterAll(() => idp.stop());
+
+	beforeEach(() => {
+		requests = new Map();
+		identities = [];
+		users = [];
+		idp.claims = { ...DEFAULT_CLAIMS };
+		idp.nonceOverride = undefined;
+
+		const prisma = {
+			oidcAuthorizationRequest: {
+				create: jest.fn(async ({ data }) => {
+					requests.set(data.state, data);
+					return data;
+				}),
+				findUnique: jest.fn(
+					async ({ where }) => requests.get(where.state) ?? null,
+				),
+				delete: jest.fn(async ({ where }) => requests.delete(where.state)),
+				deleteMany: jest.fn(async () => ({ count: 0 })),
+			},
+			userIdentity: {
+				findUnique: jest.fn(async ({ where }) => {
+					const { provider, subject } = where.provider_subject;
+					const identity = identities.find(
+						(item) => item.provider === provider && item.subject === subject,
+					);
+					return identity
+						? {
+								...identity,
+								user: users.find(({ id }) => id === identity.userId),
+							}
+						: null;
+				}),
+				create: jest.fn(async ({ data }) => {
+					identities.push(data);
+					return data;
+				}),
+			},
+		};
+		const userService = {
+			getOneByEmail: jest.fn(
+				async (email: string) =>
+					users.find((user) => user.email === email) ?? null,
+			),
+			create: jest.fn(async (data: Partial<User>) => {
+				const user = { id: `user-${users.length + 1}`, ...data };
+				users.push(user);
+				return user;
+			}),
+			update: jest.fn(),
+		};
+		config = {
+			appUrl: 'http://localhost:3000',
+			oidcProviders: [
+				{
+					name: 'mock',
+					issuer: idp.issuer,
+					clientId: CLIENT_ID,
+					clientSecret: CLIENT_SECRET,
+				},
+			],
+		};
+		authService = {
+			completeSignIn: jest.fn(async (user: User) => ({ userId: user.id })),
+		};
+
+		service = new OidcService(
+			prisma as unknown as PrismaService,
+			config as unknown as ConfigService,
+			userService as unknown as UserService,
+			{ hash: jest.fn(async () => 'hash') } as unknown as PasswordService,
+			authService as unknown as AuthService,
+		);
+	});
+
+	async function signIn() {
+		const { url } = await service.getAuthorizationUrl('mock');
+		return idp.authorize(url);
+	}
+
+	/** Calls back from the browser that started the login. */
+	function callBack(callback: { code: string; state: string }) {
+		return service.handleCallback('mock', callback, callback.state, metadata);
+	}
+
+	it('sends state, nonce and an S256 PKCE challenge', async () => {
+		const { url, state } = await service.getAuthorizationUrl('mock');
+		const params = new URL(url).searchParams;
+
+		expect(params.get('state')).toBe(state);
+		expect(params.get('nonce')).toBeTruthy();
+		expect(params.get('code_challenge_method')).toBe('S256');
+		const { codeVerifier } = requests.get(params.get('state'));
+		expect(params.get('code_challenge')).toBe(
+			createHash('sha256')
+				.update(codeVerifier as string)
+				.digest('base64url'),
+		);
+	});
+
+	it('signs in an existing user and links the identity', async () => {
+		users.push(JANE);
+		const callback = await signIn();
+
+		await callBack(callback);
+
+		expect(identities).toEqual([
+			expect.objectContaining({ provider: 'mock', userId: 'user-1' }),
+		]);
+		expect(authService.completeSignIn).toHaveBeenCalledWith(users[0], metadata);
+	});
+
+	it('rejects unknown emails unless the provider creates users', async () => {
+		const callback = await signIn();
+
+		await expect(callBack(callback)).rejects.toThrow(
+			'No account uses this email',
+		);
+		expect(users).toHaveLength(0);
+		expect(identities).toHaveLength(0);
+	});
+
+	it('signs in a new user when the provider creates users', async () => {
+		config.oidcProviders[0].createUsers = true;
+		const callback = await signIn();
+
+		await callBack(callback);
+
+		expect(users).toHaveLength(1);
+		expect(users[0]).toMatchObject({ email: 'jane@example.com' });
+		expect(identities).toEqual([
+			expect.objectContaining({ provider: 'mock', subject: 'subject-1' }),
+		]);
+		expect(authService.completeSignIn).toHaveBeenCalledWith(users[0], metadata);
+	});
+
+	it('accepts each login request only once', async () => {
+		users.push(JANE);
+		const callback = await signIn();
+		await callBack(callback);
+
+		await expect(callBack(callback)).rejects.toThrow(UnauthorizedException);
+	});
+
+	it('rejects an unknown state', async () => {
+		const { code } = await signIn();
+
+		await expect(callBack({ code, state: 'forged' })).rejects.toThrow(
+			'Invalid or expired login request',
+		);
+	});
+
+	it('rejects a callback without the state cookie of its browser', async () => {
+		const login = await signIn();
+		const otherLogin = await signIn();
+
+		await expect(
+			service.handleCallback('mock', login, otherLogin.state, metadata),
+		).rejects.toThrow('Invalid or expired login request');
+		await expect(
+			service.handleCallback('mock', login, undefined, metadata),
+		).rejects.toThrow('Invalid or expired login request');
+		// The request is left alone for the browser it belongs to
+		expect(requests.has(login.state)).toBe(true);
+		expect(authService.completeSignIn).not.toHaveBeenCalled();
+	});
+
+	it('rejects an expired login request', async () => {
+		const callback = await signIn();
+		requests.get(callback.state).expiresAt = new Date(Date.now() - 1);
+
+		await expect(callBack(callback)).rejects.toThrow(
+			'Invalid or expired login request',
+		);
+	});
+
+	it('rejects an ID token with another nonce', async () => {
+		const callback = await signIn();
+		idp.nonceOverride = 'replayed-nonce';
+
+		await expect(callBack(callback)).rejects.toThrow(
+			'Identity provider login failed',
+		);
+		expect(authService.completeSignIn).not.toHaveBeenCalled();
+	});
+
+	it('fails when the PKCE verifier does not match the challenge', async () => {
+		const callback = await signIn();
+		requests.get(callback.state).codeVerifier = 'x'.repeat(43);
+
+		await expect(callBack(callback)).rejects.toThrow(
+			'Identity provider login failed',
+		);
+		expect(authService.completeSignIn).not.toHaveBeenCalled();
+	});
+
+	it('does not link unverified emails', async () => {
+		idp.claims = { ...idp.claims, email_verified: false };
+		const callback = await signIn();
+
+		await expect(callBack(callback)).rejects.toThrow(
+			'Identity provider did not return a verified email',
+		);
+		expect(identities).toHaveLength(0);
+	});
+
+	it('does not link deleted users', async () => {
+		users.push({
+			id: 'deleted-user',
+			email: 'jane@example.com',
+			deletedAt: new Date(),
+		});
+		const callback = await signIn();
+
+		await expect(callBack(callback)).rejects.toThrow(NotFoundException);
+		expect(identities).toHaveLength(0);
+	});
+});
@@ -0,0 +1,217 @@
+import {
+	ForbiddenException,
+	Inject,
+	Injectable,
+	Logger,
+	NotFoundException,
+	UnauthorizedException,
+} from '@nestjs/common';
+import { CookieOptions } from 'express';
+import { BaseClient, generators, IdTokenClaims, Issuer } from 'openid-client';
+import { generateToken } from 'src/common/utils/token.util';
+import { ConfigService } from 'src/config/config.service';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+import { UserService } from 'src/user/user.service';
+import { AuthService } from '../auth.service';
+import { PasswordService } from '../password/password.service';
+import { SessionMetadata } from '../types/session-metadata.type';
+import { OidcProviderConfig } from './types/oidc-provider-config.type';
+
+const AUTHORIZATION_REQUEST_TTL_MS = 10 * 60 * 1000;
+
+/** Signed cookie tying a login request to the browser that started it. */
+export const OIDC_STATE_COOKIE = 'oidc_state';
+
+@Injectable()
+export class OidcService {
+	private logger = new Logger(OidcService.name);
+	private readonly clients = new Map<string, Promise<BaseClient>>();
+
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly configService: ConfigService,
+		private readonly userService: UserService,
+		private readonly passwordService: PasswordService,
+		private readonly authService: AuthService,
+	) {}
+
+	getProviders() {
+		return this.configService.oidcProviders.map(({ name }) => ({ name }));
+	}
+
+	async getAuthorizationUrl(providerName: string) {
+		const provider = this.getProvider(providerName);
+		const client = await this.getClient(provider);
+
+		const state = generators.state();
+		const nonce = generators.nonce();
+		const codeVerifier = generators.codeVerifier();
+
+		await this.prismaService.oidcAuthorizationRequest.deleteMany({
+			where: { expiresAt: { lt: new Date() } },
+		});
+		const expiresAt = new Date(Date.now() + AUTHORIZATION_REQUEST_TTL_MS);
+		await this.prismaService.oidcAuthorizationRequest.create({
+			data: { state, nonce, codeVerifier, provider: provider.name, expiresAt },
+		});
+
+		const url = client.authorizationUrl({
+			scope: provider.scope ?? 'openid email profile',
+			redirect_uri: this.getRedirectUri(provider),
+			code_challenge: generators.codeChallenge(codeVerifier),
+			code_challenge_method: 'S256',
+			state,
+			nonce,
+		});
+		return { url, state, expiresAt };
+	}
+
+	/** Lax, not strict, so the cookie survives the redirect back from the provider. */
+	get stateCookieOptions(): CookieOptions {
+		return {
+			httpOnly: true,
+			signed: true,
+			sameSite: 'lax',
+			secure: this.configService.appUrl.startsWith('https:'),
+			path: '/auth/oidc',
+		};
+	}
+
+	/**
+	 * Completes a login. `stateCookie` is the state from the browser's signed
+	 * cookie, so a code and state used in another browser are rejected.
+	 */
+	async handleCallback(
+		providerName: string,
+		params: Record<string, string>,
+		stateCookie: string | undefined,
+		metadata: SessionMetadata,
+	) {
+		const provider = this.getProvider(providerName);
+		const client = await this.getClient(provider);
+
+		if (!params.state || params.state !== stateCookie)
+			throw new UnauthorizedException('Invalid or expired login request');
+		const request =
+			await this.prismaService.oidcAuthorizationRequest.findUnique({
+				where: { state: params.state },
+			});
+		if (
+			!request ||
+			request.provider !== provider.name ||
+			request.expiresAt < new Date()
+		)
+			throw new UnauthorizedException('Invalid or expired login request');
+		await this.prismaService.oidcAuthorizationRequest.delete({
+			where: { state: request.state },
+		});
+
+		let claims: IdTokenClaims;
+		try {
+			const tokenSet = await client.callback(
+				this.getRedirectUri(provider),
+				params,
+				{
+					state: request.state,
+					nonce: request.nonce,
+					code_verifier: request.codeVerifier,
+				},
+			);
+			claims = tokenSet.claims();
+		} catch (error) {
+			this.logger.warn(`${provider.name} callback failed: ${error.message}`);
+			throw new UnauthorizedException('Identity provider login failed');
+		}
+
+		const user = await this.findOrLinkUser(provider, claims);
+		if (user.deletedAt) throw new NotFoundException('User does not exist');
+
+		return this.authService.completeSignIn(user, metadata);
+	}
+
+	/**
+	 * Resolves the identity to a user. Unknown identities are linked to the
+	 * user with the same email, or a new user if the provider allows it, but
+	 * only if the provider verified that email.
+	 */
+	private async findOrLinkUser(
+		provider: OidcProviderConfig,
+		claims: IdTokenClaims,
+	) {
+		const identity = await this.prismaService.userIdentity.findUnique({
+			where: {
+				provider_subject: { provider: provider.name, subject: claims.sub },
+			},
+			include: { user: true },
+		});
+		if (identity) return identity.user;
+
+		if (!claims.email || claims.email_verified !== true)
+			throw new ForbiddenException(
+				'Identity provider did not return a verified email',
+			);
+
+		let user = await this.userService.getOneByEmail(claims.email);
+		// Deleted accounts must not get a link that outlives the deletion
+		if (user?.deletedAt) throw new NotFoundException('User does not exist');
+		if (!user && !provider.createUsers)
+			throw new ForbiddenException('No account uses this email');
+		if (!user)
+			user = await this.userService.create({
+				email: claims.email,
+				name: claims.name?.slice(0, 35),
+				// SSO-only accounts get an unguessable password until they reset it
+				password: await this.passwordService.hash(generateToken()),
+				emailVerifiedAt: new Date(),
+			});
+		else if (!user.emailVerifiedAt)
+			user = await this.userService.update(user.id, {
+				emailVerifiedAt: new Date(),
+			});
+
+		await this.prismaService.userIdentity.create({
+			data: {
+				provider: provider.name,
+				subject: claims.sub,
+				email: claims.email,
+				userId: user.id,
+			},
+		});
+
+		return user;
+	}
+
+	private getProvider(name: string) {
+		const provider = this.configService.oidcProviders.find(
+			(item) => item.name === name,
+		);
+		if (!provider) throw new NotFoundException('Unknown identity provider');
+		return provider;
+	}
+
+	private getRedirectUri(provider: OidcProviderConfig) {
+		return `${this.configService.appUrl}/auth/oidc/${provider.name}/callback`;
+	}
+
+	/** Discovers the provider once and reuses the client, JWKS included. */
+	private getClient(provider: OidcProviderConfig) {
+		let client = this.clients.get(provider.name);
+		if (!client) {
+			client = Issuer.discover(provider.issuer).then(
+				(issuer) =>
+					new issuer.Client({
+						client_id: provider.clientId,
+						client_secret: provider.clientSecret,
+						redirect_uris: [this.getRedirectUri(provider)],
+						response_types: ['code'],
+						token_endpoint_auth_method: provider.clientSecret
+							? 'client_secret_basic'
+							: 'none',
+					}),
+			);
+			client.catch(() => this.clients.delete(provider.name));
+			this.clients.set(provider.name, client);
+		}
+		return client;
+	}
+}
@@ -0,0 +1,9 @@
+export type OidcProviderConfig = {
+	name: string;
+	issuer: string;
+	clientId: string;
+	clientSecret?: string;
+	scope?: string;
+	/** Creates accounts for verified emails no user has yet; off by default. */
+	createUsers?: boolean;
+};
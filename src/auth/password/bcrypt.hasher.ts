@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { compare, getRounds, hash } from 'bcrypt';
+import { ConfigService } from 'src/config/config.service';
+import { PasswordHasher } from './password.hasher';
+
+@Injectable()
+export class BcryptHasher extends PasswordHasher {
+	readonly algorithm = 'bcrypt';
+
+	constructor(private readonly configService: ConfigService) {
+		super();
+	}
+
+	hash(password: string) {
+		return hash(password, this.configService.passwordHashRounds);
+	}
+
+	verify(password: string, passwordHash: string) {
+		return compare(password, passwordHash);
+	}
+
+	supports(passwordHash: string) {
+		return /^\$2[aby]\$\d{2}\$/.test(passwordHash);
+	}
+
+	needsRehash(passwordHash: string) {
+		// Hashes created before per-user salts share the global PASSWORD_SALT.
+		const { legacyPasswordSalt } = this.configService;
+		if (legacyPasswordSalt && passwordHash.startsWith(legacyPasswordSalt))
+			return true;
+
+		return getRounds(passwordHash) !== this.configService.passwordHashRounds;
+	}
+}
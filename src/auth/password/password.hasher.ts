@@ -0,0 +1,15 @@
+export const PASSWORD_HASHERS = Symbol('PASSWORD_HASHERS');
+
+export abstract class PasswordHasher {
+	abstract readonly algorithm: string;
+
+	abstract hash(password: string): Promise<string>;
+
+	abstract verify(password: string, passwordHash: string): Promise<boolean>;
+
+	/** Whether the hash was produced by this algorithm. */
+	abstract supports(passwordHash: string): boolean;
+
+	/** Whether the hash was produced with outdated parameters. */
+	abstract needsRehash(passwordHash: string): boolean;
+}
@@ -0,0 +1,36 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from 'src/config/config.service';
+import { PASSWORD_HASHERS, PasswordHasher } from './password.hasher';
+
+@Injectable()
+export class PasswordService {
+	private readonly preferredHasher: PasswordHasher;
+
+	constructor(
+		@Inject(PASSWORD_HASHERS) private readonly hashers: PasswordHasher[],
+		configService: ConfigService,
+	) {
+		const algorithm = configService.passwordHasher;
+		this.preferredHasher = hashers.find(
+			(hasher) => hasher.algorithm === algorithm,
+		);
+		if (!this.preferredHasher)
+			throw new Error(`unknown password hasher ${algorithm}`);
+	}
+
+	hash(password: string) {
+		return this.preferredHasher.hash(password);
+	}
+
+	async verify(password: string, passwordHash: string) {
+		const hasher = this.hashers.find((item) => item.supports(passwordHash));
+		if (!hasher) return { valid: false, needsRehash: false };
+
+		const valid = await hasher.verify(password, passwordHash);
+		const needsRehash =
+			valid &&
+			(hasher !== this.preferredHasher || hasher.needsRehash(passwordHash));
+
+		return { valid, needsRehash };
+	}
+}
@@ -0,0 +1,63 @@
+import {
+	Body,
+	Controller,
+	Delete,
+	Get,
+	Param,
+	ParseUUIDPipe,
+	Post,
+	Req,
+	UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { plainToInstance } from 'class-transformer';
+import { IApiRequest } from 'src/common/interfaces/app-request.interface';
+import { CreatePersonalAccessTokenDto } from '../dto/create-personal-access-token.dto';
+import { PersonalAccessTokenDto } from '../dto/personal-access-token.dto';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { PersonalAccessTokenService } from './personal-access-token.service';
+
+@Controller('auth/tokens')
+@ApiBearerAuth()
+@ApiTags('authorization')
+export class PersonalAccessTokenController {
+	constructor(
+		private readonly personalAccessTokenService: PersonalAccessTokenService,
+	) {}
+
+	@Post()
+	@UseGuards(JwtAuthGuard)
+	async createToken(
+		@Req() { user }: IApiRequest,
+		@Body() dto: CreatePersonalAccessTokenDto,
+	) {
+		const token = await this.personalAccessTokenService.create(user.id, dto);
+		return plainToInstance(PersonalAccessTokenDto, token, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@Get()
+	@UseGuards(JwtAuthGuard)
+	async getTokens(@Req() { user }: IApiRequest) {
+		const tokens = await this.personalAccessTokenService.getAll(user.id);
+		return plainToInstance(PersonalAccessTokenDto, tokens, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@Delete(':tokenId')
+	@UseGuards(JwtAuthGuard)
+	async revokeToken(
+		@Req() { user }: IApiRequest,
+		@Param('tokenId', ParseUUIDPipe) tokenId: string,
+	) {
+		const token = await this.personalAccessTokenService.revoke(
+			user.id,
+			tokenId,
+		);
+		return plainToInstance(PersonalAccessTokenDto, token, {
+			excludeExtraneousValues: true,
+		});
+	}
+}
@@ -0,0 +1,125 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { hashToken } from 'src/common/utils/token.util';
+import { ConfigService } from 'src/config/config.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { RefreshTokenService } from './refresh-token.service';
+import { SessionService } from './session.service';
+
+type StoredToken = {
+	id: string;
+	tokenHash: string;
+	familyId: string;
+	expiresAt: Date;
+	usedAt: Date | null;
+};
+
+describe('RefreshTokenService', () => {
+	const family = { id: 'family-1', revokedAt: null as Date | null };
+	let tokens: StoredToken[];
+	let sessionService: { revoke: jest.Mock };
+	let service: RefreshTokenService;
+
+	beforeEach(() => {
+		tokens = [];
+		family.revokedAt = null;
+
+		const prisma = {
+			refreshToken: {
+				create: jest.fn(async ({ data }) => {
+					const token = { id: `token-${tokens.length}`, usedAt: null, ...data };
+					tokens.push(token);
+					return token;
+				}),
+				findUnique: jest.fn(async ({ where }) => {
+					const token = tokens.find(
+						({ tokenHash }) => tokenHash === where.tokenHash,
+					);
+					return token ? { ...token, family } : null;
+				}),
+				updateMany: jest.fn(async ({ where, data }) => {
+					const matching = tokens.filter(
+						({ id, usedAt }) => id === where.id && usedAt === where.usedAt,
+					);
+					for (const token of matching) Object.assign(token, data);
+					return { count: matching.length };
+				}),
+			},
+		};
+		sessionService = {
+			revoke: jest.fn(async () => {
+				family.revokedAt = new Date();
+			}),
+		};
+
+		service = new RefreshTokenService(
+			prisma as unknown as PrismaService,
+			{ refreshTokenTtlDays: 30 } as ConfigService,
+			sessionService as unknown as SessionService,
+		);
+	});
+
+	it('stores only the hash of issued tokens', async () => {
+		const token = await service.issue(family.id);
+
+		expect(tokens).toEqual([
+			expect.objectContaining({
+				tokenHash: hashToken(token),
+				familyId: family.id,
+			}),
+		]);
+		expect(JSON.stringify(tokens)).not.toContain(token);
+	});
+
+	it('returns the family and marks the token as used', async () => {
+		const token = await service.issue(family.id);
+
+		expect(await service.consume(token)).toBe(family);
+		expect(tokens[0].usedAt).toBeInstanceOf(Date);
+		expect(sessionService.revoke).not.toHaveBeenCalled();
+	});
+
+	it('revokes the family when a used token comes back', async () => {
+		const token = await service.issue(family.id);
+		await service.consume(token);
+		const next = await service.issue(family.id);
+
+		await expect(service.consume(token)).rejects.toThrow(
+			'Refresh token reuse detected',
+		);
+		expect(sessionService.revoke).toHaveBeenCalledWith(family.id);
+		await expect(service.consume(next)).rejects.toThrow(
+			'Invalid refresh token',
+		);
+	});
+
+	it('revokes the family when a concurrent refresh used the token first', async () => {
+		const token = await service.issue(family.id);
+		const [first, second] = await Promise.allSettled([
+			service.consume(token),
+			service.consume(token),
+		]);
+
+		expect(first).toEqual({ status: 'fulfilled', value: family });
+		expect(second).toEqual({
+			status: 'rejected',
+			reason: new UnauthorizedException('Refresh token reuse detected'),
+		});
+		expect(sessionService.revoke).toHaveBeenCalledWith(family.id);
+	});
+
+	it('rejects expired tokens without revoking the family', async () => {
+		const token = await service.issue(family.id);
+		tokens[0].expiresAt = new Date(Date.now() - 1);
+
+		await expect(service.consume(token)).rejects.toThrow(
+			'Refresh token expired',
+		);
+		expect(sessionService.revoke).not.toHaveBeenCalled();
+	});
+
+	it('rejects unknown tokens', async () => {
+		await expect(service.consume('unknown')).rejects.toThrow(
+			UnauthorizedException,
+		);
+	});
+});
@@ -0,0 +1,61 @@
+import { Inject, Injectable, UnauthorizedException } from '@nestjs/common';
+import { generateToken, hashToken } from 'src/common/utils/token.util';
+import { ConfigService } from 'src/config/config.service';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+import { SessionService } from './session.service';
+
+@Injectable()
+export class RefreshTokenService {
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly configService: ConfigService,
+		private readonly sessionService: SessionService,
+	) {}
+
+	async issue(familyId: string) {
+		const token = generateToken();
+		const expiresAt = new Date();
+		expiresAt.setDate(
+			expiresAt.getDate() + this.configService.refreshTokenTtlDays,
+		);
+
+		await this.prismaService.refreshToken.create({
+			data: { tokenHash: hashToken(token), familyId, expiresAt },
+		});
+
+		return token;
+	}
+
+	/**
+	 * Marks the presented token as used and returns its family, so the caller
+	 * can issue the next token in it. Presenting an already used token means it
+	 * leaked, so the whole family is revoked.
+	 */
+	async consume(token: string) {
+		const refreshToken = await this.prismaService.refreshToken.findUnique({
+			where: { tokenHash: hashToken(token) },
+			include: { family: true },
+		});
+		if (!refreshToken || refreshToken.family.revokedAt)
+			throw new UnauthorizedException('Invalid refresh token');
+
+		if (refreshToken.usedAt) {
+			await this.sessionService.revoke(refreshToken.familyId);
+			throw new UnauthorizedException('Refresh token reuse detected');
+		}
+
+		if (refreshToken.expiresAt < new Date())
+			throw new UnauthorizedException('Refresh token expired');
+
+		const { count } = await this.prismaService.refreshToken.updateMany({
+			where: { id: refreshToken.id, usedAt: null },
+			data: { usedAt: new Date() },
+		});
+		if (!count) {
+			await this.sessionService.revoke(refreshToken.familyId);
+			throw new UnauthorizedException('Refresh token reuse detected');
+		}
+
+		return refreshToken.family;
+	}
+}
@@ -0,0 +1,55 @@
+import {
+	Controller,
+	Delete,
+	Get,
+	HttpCode,
+	HttpStatus,
+	Param,
+	ParseUUIDPipe,
+	Req,
+	UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { plainToInstance } from 'class-transformer';
+import { IApiRequest } from 'src/common/interfaces/app-request.interface';
+import { SessionDto } from './dto/session.dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { SessionService } from './session.service';
+
+@Controller('user/me/sessions')
+@ApiBearerAuth()
+@ApiTags('user')
+export class SessionController {
+	constructor(private readonly sessionService: SessionService) {}
+
+	@Get()
+	@UseGuards(JwtAuthGuard)
+	async getSessions(@Req() { user }: IApiRequest) {
+		const sessions = await this.sessionService.getAll(user.id);
+		return plainToInstance(
+			SessionDto,
+			sessions.map((session) => ({
+				...session,
+				current: session.id === user.jti,
+			})),
+			{ excludeExtraneousValues: true },
+		);
+	}
+
+	@Delete()
+	@HttpCode(HttpStatus.NO_CONTENT)
+	@UseGuards(JwtAuthGuard)
+	async revokeAllSessions(@Req() { user }: IApiRequest) {
+		await this.sessionService.revokeAll(user.id);
+	}
+
+	@Delete(':sessionId')
+	@HttpCode(HttpStatus.NO_CONTENT)
+	@UseGuards(JwtAuthGuard)
+	async revokeSession(
+		@Req() { user }: IApiRequest,
+		@Param('sessionId', ParseUUIDPipe) sessionId: string,
+	) {
+		await this.sessionService.revokeForUser(user.id, sessionId);
+	}
+}
@@ -0,0 +1,119 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { TtlCache } from 'src/common/cache/ttl-cache';
+import { JwtUserInfo } from 'src/common/types/jwt-user-info.type';
+import { ConfigService } from 'src/config/config.service';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+import {
+	USER_DELETED_EVENT,
+	USER_UPDATED_EVENT,
+	UserEvent,
+} from 'src/user/events/user.events';
+import { SessionMetadata } from './types/session-metadata.type';
+
+type SessionState = { userId: string; revoked: boolean };
+
+/**
+ * A session is a refresh token family: it starts at sign-in and its id is the
+ * `jti` of every access token issued in it.
+ */
+@Injectable()
+export class SessionService {
+	private readonly sessionCache: TtlCache<SessionState | null>;
+	private readonly userCache: TtlCache<boolean | null>;
+
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		configService: ConfigService,
+	) {
+		const ttlMs = configService.sessionCacheTtlSeconds * 1000;
+		this.sessionCache = new TtlCache(ttlMs);
+		this.userCache = new TtlCache(ttlMs);
+	}
+
+	async create(
+		userId: string,
+		data: SessionMetadata & { twoFactorVerified?: boolean } = {},
+	) {
+		return this.prismaService.refreshTokenFamily.create({
+			data: { userId, ...data },
+		});
+	}
+
+	async getAll(userId: string) {
+		return this.prismaService.refreshTokenFamily.findMany({
+			where: { userId, revokedAt: null },
+			orderBy: { createdAt: 'desc' },
+		});
+	}
+
+	async touch(sessionId: string) {
+		await this.prismaService.refreshTokenFamily.update({
+			where: { id: sessionId },
+			data: { lastUsedAt: new Date() },
+		});
+	}
+
+	async revokeForUser(userId: string, sessionId: string) {
+		const session = await this.prismaService.refreshTokenFamily.findFirst({
+			where: { id: sessionId, userId, revokedAt: null },
+			select: { id: true },
+		});
+		if (!session) throw new NotFoundException('Session does not exist');
+
+		await this.revoke(sessionId);
+	}
+
+	async revoke(sessionId: string) {
+		await this.prismaService.refreshTokenFamily.updateMany({
+			where: { id: sessionId, revokedAt: null },
+			data: { revokedAt: new Date() },
+		});
+		this.sessionCache.delete(sessionId);
+	}
+
+	async revokeAll(userId: string) {
+		const sessions = await this.getAll(userId);
+		await this.prismaService.refreshTokenFamily.updateMany({
+			where: { userId, revokedAt: null },
+			data: { revokedAt: new Date() },
+		});
+		for (const session of sessions) this.sessionCache.delete(session.id);
+	}
+
+	/** Whether an access token still belongs to a live session of an active user. */
+	async isAccessTokenValid(payload: JwtUserInfo) {
+		if (!payload.jti) return false;
+
+		const session = await this.sessionCache.getOrSet(payload.jti, async () => {
+			const family = await this.prismaService.refreshTokenFamily.findUnique({
+				where: { id: payload.jti },
+				select: { userId: true, revokedAt: true },
+			});
+			return family && { userId: family.userId, revoked: !!family.revokedAt };
+		});
+		if (!session || session.revoked || session.userId !== payload.id)
+			return false;
+
+		const deleted = await this.userCache.getOrSet(payload.id, async () => {
+			const row = await this.prismaService.user.findUnique({
+				where: { id: payload.id },
+				select: { deletedAt: true },
+			});
+			return row && !!row.deletedAt;
+		});
+
+		return deleted === false;
+	}
+
+	@OnEvent(USER_UPDATED_EVENT)
+	handleUserUpdated({ userId }: UserEvent) {
+		this.userCache.delete(userId);
+	}
+
+	@OnEvent(USER_DELETED_EVENT)
+	async handleUserDeleted({ userId }: UserEvent) {
+		this.userCache.delete(userId);
+		await this.revokeAll(userId);
+	}
+}
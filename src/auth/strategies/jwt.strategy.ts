@@ -1,14 +1,20 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { JwtUserInfo } from 'src/common/types/jwt-user-info.type';
 import { ConfigService } from 'src/config/config.service';
+import { PermissionService } from 'src/role/permission.service';
+import { SessionService } from '../session.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
 	private logger = new Logger(JwtStrategy.name);
 
-	constructor(configService: ConfigService) {
+	constructor(
+		configService: ConfigService,
+		private readonly sessionService: SessionService,
+		private readonly permissionService: PermissionService,
+	) {
 		super({
 			jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
 			secretOrKey: configService.jwtSecret,
@@ -16,8 +22,15 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
 		});
 	}
 
-	validate(payload: JwtUserInfo) {
+	async validate(payload: JwtUserInfo): Promise<JwtUserInfo> {
 		this.logger.debug(payload);
-		return payload;
+		if (!(await this.sessionService.isAccessTokenValid(payload)))
+			throw new UnauthorizedException('Session is no longer valid');
+
+		const grant = await this.permissionService.getGrant(
+			payload.id,
+			payload.twoFactor,
+		);
+		return { ...payload, ...grant };
 	}
 }
@@ -0,0 +1,20 @@
+import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-http-bearer';
+import { PersonalAccessTokenService } from '../personal-access-token/personal-access-token.service';
+
+@Injectable()
+export class PersonalAccessTokenStrategy extends PassportStrategy(
+	Strategy,
+	'personal-access-token',
+) {
+	constructor(
+		private readonly personalAccessTokenService: PersonalAccessTokenService,
+	) {
+		super();
+	}
+
+	async validate(token: string) {
+		return (await this.personalAccessTokenService.validate(token)) ?? false;
+	}
+}
@@ -0,0 +1,66 @@
+import { generateTotp, verifyTotp } from './totp.util';
+
+// RFC 6238 appendix B, SHA-1 key "12345678901234567890" in base32
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+// The RFC lists 8 digits, codes here are the last 6 of them
+const VECTORS: [number, string][] = [
+	[59, '287082'],
+	[1111111109, '081804'],
+	[1111111111, '050471'],
+	[1234567890, '005924'],
+	[2000000000, '279037'],
+	[20000000000, '353130'],
+];
+
+describe('totp', () => {
+	it.each(VECTORS)('generates the RFC 6238 code at %i s', (seconds, code) => {
+		expect(generateTotp(SECRET, seconds * 1000)).toBe(code);
+	});
+
+	it.each(VECTORS)('verifies the RFC 6238 code at %i s', (seconds, code) => {
+		const timestamp = seconds * 1000;
+		expect(verifyTotp(SECRET, code, { timestamp })).toBe(
+			Math.floor(seconds / 30),
+		);
+	});
+
+	it('accepts codes one time step off', () => {
+		const code = generateTotp(SECRET, 1111111111 * 1000);
+		const counter = Math.floor(1111111111 / 30);
+
+		expect(verifyTotp(SECRET, code, { timestamp: 1111111141 * 1000 })).toBe(
+			counter,
+		);
+		expect(verifyTotp(SECRET, code, { timestamp: 1111111081 * 1000 })).toBe(
+			counter,
+		);
+	});
+
+	it('rejects codes outside the window', () => {
+		const code = generateTotp(SECRET, 1111111111 * 1000);
+
+		expect(
+			verifyTotp(SECRET, code, { timestamp: 1111111171 * 1000 }),
+		).toBeNull();
+	});
+
+	it('rejects a code whose time step was already used', () => {
+		const timestamp = 1234567890 * 1000;
+		const counter = verifyTotp(SECRET, '005924', { timestamp });
+
+		expect(
+			verifyTotp(SECRET, '005924', { timestamp, lastCounter: counter }),
+		).toBeNull();
+		expect(
+			verifyTotp(SECRET, generateTotp(SECRET, timestamp + 30_000), {
+				timestamp,
+				lastCounter: counter,
+			}),
+		).toBe(counter + 1);
+	});
+
+	it('rejects codes of the wrong length', () => {
+		expect(verifyTotp(SECRET, '28708', { timestamp: 59 * 1000 })).toBeNull();
+	});
+});
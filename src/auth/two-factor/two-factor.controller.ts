@@ -0,0 +1,53 @@
+import {
+	Body,
+	Controller,
+	HttpCode,
+	HttpStatus,
+	Post,
+	Req,
+	UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiConsumes, ApiTags } from '@nestjs/swagger';
+import { IApiRequest } from 'src/common/interfaces/app-request.interface';
+import { AuthTwoFactorCodeDto } from '../dto/auth.two-factor-code.dto';
+import { AuthTwoFactorVerifyDto } from '../dto/auth.two-factor-verify.dto';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { TwoFactorService } from './two-factor.service';
+
+@Controller('auth/2fa')
+@ApiBearerAuth()
+@ApiTags('authorization')
+export class TwoFactorController {
+	constructor(private readonly twoFactorService: TwoFactorService) {}
+
+	@Post('enroll')
+	@UseGuards(JwtAuthGuard)
+	enroll(@Req() { user }: IApiRequest) {
+		return this.twoFactorService.enroll(user.id);
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Post('confirm')
+	@UseGuards(JwtAuthGuard)
+	confirm(@Req() { user }: IApiRequest, @Body() data: AuthTwoFactorCodeDto) {
+		return this.twoFactorService.confirm(user.id, data.code);
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Post('recovery-codes')
+	@UseGuards(JwtAuthGuard)
+	regenerateRecoveryCodes(
+		@Req() { user }: IApiRequest,
+		@Body() data: AuthTwoFactorVerifyDto,
+	) {
+		return this.twoFactorService.regenerateRecoveryCodes(user.id, data);
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Post('disable')
+	@HttpCode(HttpStatus.NO_CONTENT)
+	@UseGuards(JwtAuthGuard)
+	disable(@Req() { user }: IApiRequest, @Body() data: AuthTwoFactorVerifyDto) {
+		return this.twoFactorService.disable(user.id, data);
+	}
+}
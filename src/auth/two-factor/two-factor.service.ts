@@ -0,0 +1,171 @@
+import { randomBytes } from 'node:crypto';
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { User } from '@prisma/client';
+import { decrypt, encrypt } from 'src/common/utils/encryption.util';
+import { hashToken } from 'src/common/utils/token.util';
+import { ConfigService } from 'src/config/config.service';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+import { PermissionService } from 'src/role/permission.service';
+import { AuthTwoFactorVerifyDto } from '../dto/auth.two-factor-verify.dto';
+import { buildOtpAuthUri, generateTotpSecret, verifyTotp } from './totp.util';
+
+const RECOVERY_CODES_COUNT = 10;
+
+@Injectable()
+export class TwoFactorService {
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly configService: ConfigService,
+		private readonly permissionService: PermissionService,
+	) {}
+
+	/**
+	 * Stores a new pending secret. It only starts protecting sign-ins once a
+	 * code generated from it is confirmed.
+	 */
+	async enroll(userId: string) {
+		const user = await this.prismaService.user.findUniqueOrThrow({
+			where: { id: userId },
+		});
+		if (user.twoFactorEnabledAt)
+			throw new BadRequestException('Two-factor authentication is enabled');
+
+		const secret = generateTotpSecret();
+		await this.prismaService.user.update({
+			where: { id: userId },
+			data: {
+				twoFactorSecret: encrypt(
+					secret,
+					this.configService.twoFactorEncryptionKey,
+				),
+			},
+		});
+
+		return {
+			secret,
+			otpauthUri: buildOtpAuthUri(
+				this.configService.twoFactorIssuer,
+				user.email,
+				secret,
+			),
+		};
+	}
+
+	async confirm(userId: string, code: string) {
+		const user = await this.prismaService.user.findUniqueOrThrow({
+			where: { id: userId },
+		});
+		if (user.twoFactorEnabledAt)
+			throw new BadRequestException('Two-factor authentication is enabled');
+		if (!user.twoFactorSecret)
+			throw new BadRequestException('Two-factor enrollment was not started');
+		if (!(await this.verifyCode(user, code)))
+			throw new BadRequestException('Invalid two-factor code');
+
+		await this.prismaService.user.update({
+			where: { id: userId },
+			data: { twoFactorEnabledAt: new Date() },
+		});
+		this.permissionService.invalidateUser(userId);
+
+		return { recoveryCodes: await this.replaceRecoveryCodes(userId) };
+	}
+
+	async regenerateRecoveryCodes(userId: string, data: AuthTwoFactorVerifyDto) {
+		await this.verifyOrThrow(userId, data);
+		return { recoveryCodes: await this.replaceRecoveryCodes(userId) };
+	}
+
+	async disable(userId: string, data: AuthTwoFactorVerifyDto) {
+		await this.verifyOrThrow(userId, data);
+
+		await this.prismaService.$transaction([
+			this.prismaService.twoFactorRecoveryCode.deleteMany({
+				where: { userId },
+			}),
+			this.prismaService.user.update({
+				where: { id: userId },
+				data: { twoFactorSecret: null, twoFactorEnabledAt: null },
+			}),
+		]);
+		this.permissionService.invalidateUser(userId);
+	}
+
+	/** Checks a TOTP code, or uses up a recovery code. */
+	async verify(user: User, data: AuthTwoFactorVerifyDto) {
+		if (!user.twoFactorEnabledAt) return false;
+		if (data.code) return this.verifyCode(user, data.code);
+		if (!data.recoveryCode) return false;
+
+		const { count } = await this.prismaService.twoFactorRecoveryCode.updateMany(
+			{
+				where: {
+					userId: user.id,
+					codeHash: hashToken(data.recoveryCode),
+					usedAt: null,
+				},
+				data: { usedAt: new Date() },
+			},
+		);
+		return count > 0;
+	}
+
+	private async verifyOrThrow(userId: string, data: AuthTwoFactorVerifyDto) {
+		const user = await this.prismaService.user.findUniqueOrThrow({
+			where: { id: userId },
+		});
+		if (!user.twoFactorEnabledAt)
+			throw new BadRequestException('Two-factor authentication is disabled');
+		if (!(await this.verify(user, data)))
+			throw new BadRequestException('Invalid two-factor code');
+	}
+
+	/**
+	 * Accepts each time step once. The conditional update keeps two requests
+	 * with the same code from both getting through.
+	 */
+	private async verifyCode(user: User, code: string) {
+		const secret = decrypt(
+			user.twoFactorSecret,
+			this.configService.twoFactorEncryptionKey,
+		);
+		const counter = verifyTotp(secret, code, {
+			lastCounter: user.twoFactorLastCounter,
+		});
+		if (counter === null) return false;
+
+		const { count } = await this.prismaService.user.updateMany({
+			where: {
+				id: user.id,
+				OR: [
+					{ twoFactorLastCounter: null },
+					{ twoFactorLastCounter: { lt: counter } },
+				],
+			},
+			data: { twoFactorLastCounter: counter },
+		});
+		return count > 0;
+	}
+
+	private async replaceRecoveryCodes(userId: string) {
+		const recoveryCodes = Array.from({ length: RECOVERY_CODES_COUNT }, () =>
+			randomBytes(5)
+				.toString('hex')
+				.replace(/^(.{5})/, '$1-'),
+		);
+
+		await this.prismaService.$transaction([
+			this.prismaService.twoFactorRecoveryCode.deleteMany({
+				where: { userId },
+			}),
+			this.prismaService.twoFactorRecoveryCode.createMany({
+				data: recoveryCodes.map((code) => ({
+					userId,
+					codeHash: hashToken(code),
+				})),
+			}),
+		]);
+
+		return recoveryCodes;
+	}
+}
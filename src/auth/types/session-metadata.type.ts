@@ -0,0 +1,4 @@
+export type SessionMetadata = {
+	userAgent?: string;
+	ipAddress?: string;
+};
@@ -0,0 +1,68 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { UserTokenType } from '@prisma/client';
+import { generateToken, hashToken } from 'src/common/utils/token.util';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+
+@Injectable()
+export class UserTokenService {
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+	) {}
+
+	/**
+	 * Issues a single-use token. Unused tokens of the same type are dropped,
+	 * so only the latest one stays valid.
+	 */
+	async issue(userId: string, type: UserTokenType, ttlMinutes: number) {
+		await this.prismaService.userToken.deleteMany({
+			where: { userId, type, usedAt: null },
+		});
+
+		const token = generateToken();
+		await this.prismaService.userToken.create({
+			data: {
+				userId,
+				type,
+				tokenHash: hashToken(token),
+				expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+			},
+		});
+
+		return token;
+	}
+
+	async getLatest(userId: string, type: UserTokenType) {
+		return this.prismaService.userToken.findFirst({
+			where: { userId, type },
+			orderBy: { createdAt: 'desc' },
+		});
+	}
+
+	/** Returns a valid token without using it up. */
+	async find(token: string, type: UserTokenType) {
+		const userToken = await this.prismaService.userToken.findUnique({
+			where: { tokenHash: hashToken(token) },
+		});
+		if (
+			!userToken ||
+			userToken.type !== type ||
+			userToken.usedAt ||
+			userToken.expiresAt < new Date()
+		)
+			throw new BadRequestException('Invalid or expired token');
+
+		return userToken;
+	}
+
+	async consume(token: string, type: UserTokenType) {
+		const userToken = await this.find(token, type);
+
+		const { count } = await this.prismaService.userToken.updateMany({
+			where: { id: userToken.id, usedAt: null },
+			data: { usedAt: new Date() },
+		});
+		if (!count) throw new BadRequestException('Invalid or expired token');
+
+		return userToken;
+	}
+}
@@ -0,0 +1,48 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { MailerService } from 'src/mailer/mailer.service';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+import {
+	COMMENT_MENTIONED_EVENT,
+	CommentMentionedEvent,
+} from './events/comment.events';
+
+@Injectable()
+export class CommentNotificationService {
+	private logger = new Logger(CommentNotificationService.name);
+
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly mailerService: MailerService,
+	) {}
+
+	/** Emails mentioned users; failures are logged and don't undo the comment. */
+	@OnEvent(COMMENT_MENTIONED_EVENT, { async: true })
+	async handleMentioned({ commentId, userIds }: CommentMentionedEvent) {
+		const comment = await this.prismaService.comment.findUniqueOrThrow({
+			where: { id: commentId },
+			include: {
+				task: { select: { name: true } },
+				author: { select: { name: true, email: true } },
+			},
+		});
+		const users = await this.prismaService.user.findMany({
+			where: { id: { in: userIds } },
+			select: { email: true },
+		});
+		const authorName = comment.author?.name || comment.author?.email;
+
+		for (const { email } of users)
+			await this.mailerService
+				.send({
+					to: email,
+					subject: `You were mentioned on ${comment.task.name}`,
+					text: `${authorName} mentioned you in a comment on ${comment.task.name}:\n\n${comment.body}`,
+				})
+				.catch((error) =>
+					this.logger.warn(
+						`Mention email to ${email} failed: ${error.message}`,
+					),
+				);
+	}
+}
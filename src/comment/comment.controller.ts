@@ -0,0 +1,106 @@
+import {
+	Body,
+	Controller,
+	Delete,
+	Get,
+	HttpCode,
+	HttpStatus,
+	Param,
+	ParseUUIDPipe,
+	Patch,
+	Post,
+	Query,
+	Req,
+	UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiConsumes, ApiTags } from '@nestjs/swagger';
+import { plainToInstance } from 'class-transformer';
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator';
+import { RequireTokenScope } from 'src/auth/decorators/token-scope.decorator';
+import { EmailVerifiedGuard } from 'src/auth/guards/email-verified.guard';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { IApiRequest } from 'src/common/interfaces/app-request.interface';
+import { CommentService } from './comment.service';
+import { CommentDto } from './dto/comment.dto';
+import { CreateCommentDto } from './dto/create-comment.dto';
+import { CommentsPaginationDto } from './dto/pagination/comments.pagination.dto';
+import { CommentsPaginationOptionsDto } from './dto/pagination/comments.pagination.options.dto';
+import { UpdateCommentDto } from './dto/update-comment.dto';
+
+@Controller('task/:taskId/comments')
+@ApiBearerAuth()
+@ApiTags('task')
+export class CommentController {
+	constructor(private readonly commentService: CommentService) {}
+
+	@Get()
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('comment:read')
+	@RequireTokenScope('task:read')
+	async getComments(
+		@Param('taskId', ParseUUIDPipe) taskId: string,
+		@Req() { user }: IApiRequest,
+		@Query() options: CommentsPaginationOptionsDto,
+	) {
+		const comments = await this.commentService.getComments(
+			taskId,
+			user,
+			options,
+		);
+		return plainToInstance(CommentsPaginationDto, comments, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Post()
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('comment:create')
+	@RequireTokenScope('task:write')
+	async createComment(
+		@Param('taskId', ParseUUIDPipe) taskId: string,
+		@Req() { user }: IApiRequest,
+		@Body() dto: CreateCommentDto,
+	) {
+		const comment = await this.commentService.createComment(taskId, user, dto);
+		return plainToInstance(CommentDto, comment, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Patch(':commentId')
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('comment:update')
+	@RequireTokenScope('task:write')
+	async updateComment(
+		@Param('taskId', ParseUUIDPipe) taskId: string,
+		@Param('commentId', ParseUUIDPipe) commentId: string,
+		@Req() { user }: IApiRequest,
+		@Body() dto: UpdateCommentDto,
+	) {
+		const comment = await this.commentService.updateComment(
+			taskId,
+			commentId,
+			user,
+			dto,
+		);
+		return plainToInstance(CommentDto, comment, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@Delete(':commentId')
+	@HttpCode(HttpStatus.NO_CONTENT)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('comment:delete')
+	@RequireTokenScope('task:write')
+	async deleteComment(
+		@Param('taskId', ParseUUIDPipe) taskId: string,
+		@Param('commentId', ParseUUIDPipe) commentId: string,
+		@Req() { user }: IApiRequest,
+	) {
+		await this.commentService.deleteComment(taskId, commentId, user);
+	}
+}
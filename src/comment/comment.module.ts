@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { CompanyModule } from 'src/company/company.module';
+import { TaskModule } from 'src/task/task.module';
+import { CommentController } from './comment.controller';
+import { CommentService } from './comment.service';
+import { CommentNotificationService } from './comment-notification.service';
+
+@Module({
+	imports: [CompanyModule, TaskModule],
+	controllers: [CommentController],
+	providers: [CommentService, CommentNotificationService],
+})
+export class CommentModule {}
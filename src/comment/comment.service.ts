@@ -0,0 +1,224 @@
+import { ForbiddenException, Inject, Injectable } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+	Comment,
+	CommentMention,
+	CompanyMemberRole,
+	Prisma,
+	Task,
+} from '@prisma/client';
+import { isUUID } from 'class-validator';
+import { JwtUserInfo } from 'src/common/types/jwt-user-info.type';
+import { hasPermission } from 'src/common/utils/permission.util';
+import { CompanyService } from 'src/company/company.service';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+import { TaskService } from 'src/task/task.service';
+import { CreateCommentDto } from './dto/create-comment.dto';
+import { CommentsPaginationOptionsDto } from './dto/pagination/comments.pagination.options.dto';
+import { UpdateCommentDto } from './dto/update-comment.dto';
+import {
+	COMMENT_MENTIONED_EVENT,
+	CommentMentionedEvent,
+} from './events/comment.events';
+
+/** `@user@example.com` or `@<user UUID>`, trailing punctuation excluded. */
+const MENTION_PATTERN =
+	/@([^\s@]+@[^\s@]+\.[^\s@]*[^\s@.,;:!?)]|[0-9a-f-]{36})/gi;
+
+const withMentions = { mentions: { select: { userId: true } } };
+
+@Injectable()
+export class CommentService {
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly taskService: TaskService,
+		private readonly companyService: CompanyService,
+		private readonly eventEmitter: EventEmitter2,
+	) {}
+
+	async getComments(
+		taskId: string,
+		user: JwtUserInfo,
+		options: CommentsPaginationOptionsDto,
+	) {
+		await this.taskService.getTaskById(taskId, user);
+		const where: Prisma.CommentWhereInput = { taskId };
+
+		const items = await this.prismaService.comment.findMany({
+			where,
+			include: withMentions,
+			orderBy: { createdAt: 'asc' },
+			take: options.perPage,
+			skip: options.perPage * (options.page - 1),
+		});
+
+		const count = await this.prismaService.comment.count({ where });
+
+		return {
+			items: items.map((comment) => this.toResponse(comment)),
+			meta: {
+				page: options.page,
+				perPage: items.length,
+				totalPages: Math.ceil(count / options.perPage),
+				total: count,
+			},
+		};
+	}
+
+	async createComment(
+		taskId: string,
+		user: JwtUserInfo,
+		data: CreateCommentDto,
+	) {
+		const task = await this.taskService.getTaskById(taskId, user);
+		const userIds = await this.resolveMentions(data.body, task);
+
+		const comment = await this.prismaService.comment.create({
+			data: {
+				taskId,
+				authorId: user.id,
+				body: data.body,
+				mentions: { create: userIds.map((userId) => ({ userId })) },
+			},
+			include: withMentions,
+		});
+		this.notifyMentioned(comment.id, userIds, user);
+
+		return this.toResponse(comment);
+	}
+
+	/** Only the author edits a comment; users mentioned anew are notified. */
+	async updateComment(
+		taskId: string,
+		commentId: string,
+		user: JwtUserInfo,
+		data: UpdateCommentDto,
+	) {
+		const task = await this.taskService.getTaskById(taskId, user);
+		const comment = await this.prismaService.comment.findFirstOrThrow({
+			where: { id: commentId, taskId },
+			include: withMentions,
+		});
+		if (comment.authorId !== user.id && !hasPermission(user, 'comment:manage'))
+			throw new ForbiddenException("User can't edit comment");
+
+		const userIds = await this.resolveMentions(data.body, task);
+		const previousIds = comment.mentions.map(({ userId }) => userId);
+
+		const [, , updatedComment] = await this.prismaService.$transaction([
+			this.prismaService.commentMention.deleteMany({
+				where: { commentId, userId: { notIn: userIds } },
+			}),
+			this.prismaService.commentMention.createMany({
+				data: userIds.map((userId) => ({ commentId, userId })),
+				skipDuplicates: true,
+			}),
+			this.prismaService.comment.update({
+				where: { id: commentId },
+				data: { body: data.body, editedAt: new Date(), updatedAt: new Date() },
+				include: withMentions,
+			}),
+		]);
+		this.notifyMentioned(
+			commentId,
+			userIds.filter((id) => !previousIds.includes(id)),
+			user,
+		);
+
+		return this.toResponse(updatedComment);
+	}
+
+	/** Authors delete their comments, company admins any on their tasks. */
+	async deleteComment(taskId: string, commentId: string, user: JwtUserInfo) {
+		const task = await this.taskService.getTaskById(taskId, user);
+		const comment = await this.prismaService.comment.findFirstOrThrow({
+			where: { id: commentId, taskId },
+		});
+		if (comment.authorId !== user.id && !hasPermission(user, 'comment:manage'))
+			await this.assertCompanyAdmin(task, user);
+
+		await this.prismaService.comment.delete({ where: { id: commentId } });
+	}
+
+	private async assertCompanyAdmin(task: Task, user: JwtUserInfo) {
+		const project = task.projectId
+			? await this.prismaService.project.findUnique({
+					where: { id: task.projectId },
+					select: { companyId: true },
+				})
+			: null;
+		if (!project?.companyId)
+			throw new ForbiddenException("User can't delete comment");
+
+		await this.companyService.assertCompanyAccess(
+			project.companyId,
+			user,
+			CompanyMemberRole.ADMIN,
+			"User can't delete comment",
+		);
+	}
+
+	/**
+	 * Users mentioned in the text who can see the task: its reporter, its
+	 * assignee and members of the project's company.
+	 */
+	private async resolveMentions(body: string, task: Task) {
+		const tokens = [...body.matchAll(MENTION_PATTERN)].map(([, token]) =>
+			token.toLowerCase(),
+		);
+		const ids = tokens.filter((token) => isUUID(token));
+		const emails = tokens.filter((token) => token.includes('@'));
+		if (!ids.length && !emails.length) return [];
+
+		const project = task.projectId
+			? await this.prismaService.project.findUnique({
+					where: { id: task.projectId },
+					select: { companyId: true },
+				})
+			: null;
+		const users = await this.prismaService.user.findMany({
+			where: {
+				deletedAt: null,
+				OR: [
+					{ id: { in: ids } },
+					{ email: { in: emails, mode: 'insensitive' } },
+				],
+				AND: {
+					OR: [
+						{ id: { in: [task.reporterId, task.assigneeId].filter(Boolean) } },
+						...(project?.companyId
+							? [{ memberships: { some: { companyId: project.companyId } } }]
+							: []),
+					],
+				},
+			},
+			select: { id: true },
+		});
+		return users.map(({ id }) => id);
+	}
+
+	/** Fire and forget, so mail delivery never holds up or fails the request. */
+	private notifyMentioned(
+		commentId: string,
+		userIds: string[],
+		author: JwtUserInfo,
+	) {
+		const recipients = userIds.filter((id) => id !== author.id);
+		if (!recipients.length) return;
+
+		this.eventEmitter.emit(
+			COMMENT_MENTIONED_EVENT,
+			new CommentMentionedEvent(commentId, recipients),
+		);
+	}
+
+	private toResponse({
+		mentions,
+		...comment
+	}: Comment & { mentions: Pick<CommentMention, 'userId'>[] }) {
+		return {
+			...comment,
+			mentionedUserIds: mentions.map(({ userId }) => userId),
+		};
+	}
+}
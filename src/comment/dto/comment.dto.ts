@@ -0,0 +1,33 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+
+@Exclude()
+export class CommentDto {
+	@Expose()
+	@ApiProperty()
+	id: string;
+
+	@Expose()
+	@ApiProperty()
+	taskId: string;
+
+	@Expose()
+	@ApiPropertyOptional({ description: 'Empty once the author is removed' })
+	authorId: string | null;
+
+	@Expose()
+	@ApiProperty()
+	body: string;
+
+	@Expose()
+	@ApiProperty({ type: [String] })
+	mentionedUserIds: string[];
+
+	@Expose()
+	@ApiPropertyOptional()
+	editedAt: Date | null;
+
+	@Expose()
+	@ApiProperty()
+	createdAt: Date;
+}
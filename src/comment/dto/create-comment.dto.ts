@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+import { IsString, Length } from 'class-validator';
+
+@Exclude()
+export class CreateCommentDto {
+	@Expose()
+	@Length(1, 4096)
+	@IsString()
+	@ApiProperty({
+		default: 'Looks good, @jane@example.com please review',
+		description: 'Mention users with @email or @userId',
+	})
+	body: string;
+}
@@ -0,0 +1,10 @@
+import { Exclude, Expose, Type } from 'class-transformer';
+import { BasePaginationDto } from 'src/common/pagination/dto/base.pagination.dto';
+import { CommentDto } from '../comment.dto';
+
+@Exclude()
+export class CommentsPaginationDto extends BasePaginationDto<CommentDto> {
+	@Expose()
+	@Type(() => CommentDto)
+	items: CommentDto[];
+}
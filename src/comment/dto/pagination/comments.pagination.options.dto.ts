@@ -0,0 +1,3 @@
+import { BasePaginationOptionsDto } from 'src/common/pagination/dto/base.pagination.options.dto';
+
+export class CommentsPaginationOptionsDto extends BasePaginationOptionsDto {}
@@ -0,0 +1,3 @@
+import { CreateCommentDto } from './create-comment.dto';
+
+export class UpdateCommentDto extends CreateCommentDto {}
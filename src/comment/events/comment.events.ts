@@ -0,0 +1,8 @@
+export const COMMENT_MENTIONED_EVENT = 'comment.mentioned';
+
+export class CommentMentionedEvent {
+	constructor(
+		readonly commentId: string,
+		readonly userIds: string[],
+	) {}
+}
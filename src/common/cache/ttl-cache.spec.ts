@@ -0,0 +1,67 @@
+import { TtlCache } from './ttl-cache';
+
+describe('TtlCache', () => {
+	let now: number;
+
+	beforeEach(() => {
+		now = 1_000_000;
+		jest.spyOn(Date, 'now').mockImplementation(() => now);
+	});
+
+	afterEach(() => jest.restoreAllMocks());
+
+	it('returns values until they expire', () => {
+		const cache = new TtlCache<string>(1000);
+		cache.set('a', 'value');
+
+		now += 999;
+		expect(cache.get('a')).toBe('value');
+		now += 1;
+		expect(cache.get('a')).toBeUndefined();
+	});
+
+	it('drops expired entries on write even if they are never read', () => {
+		const cache = new TtlCache<number>(1000);
+		for (let i = 0; i < 5; i++) cache.set(`stale-${i}`, i);
+
+		now += 1000;
+		cache.set('fresh', 1);
+
+		expect(cache.size).toBe(1);
+	});
+
+	it('keeps entries that were refreshed', () => {
+		const cache = new TtlCache<number>(1000);
+		cache.set('a', 1);
+		cache.set('b', 2);
+		now += 500;
+		cache.set('a', 3);
+
+		now += 600;
+		cache.set('c', 4);
+
+		expect(cache.get('a')).toBe(3);
+		expect(cache.get('b')).toBeUndefined();
+		expect(cache.size).toBe(2);
+	});
+
+	it('evicts the oldest entries beyond the maximum size', () => {
+		const cache = new TtlCache<number>(1000, 2);
+		cache.set('a', 1);
+		cache.set('b', 2);
+		cache.set('c', 3);
+
+		expect(cache.get('a')).toBeUndefined();
+		expect(cache.get('b')).toBe(2);
+		expect(cache.get('c')).toBe(3);
+	});
+
+	it('calls the factory only on a miss', async () => {
+		const cache = new TtlCache<number>(1000);
+		const factory = jest.fn().mockResolvedValue(42);
+
+		expect(await cache.getOrSet('a', factory)).toBe(42);
+		expect(await cache.getOrSet('a', factory)).toBe(42);
+		expect(factory).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,58 @@
+const DEFAULT_MAX_ENTRIES = 10_000;
+
+/**
+ * Minimal in-process cache whose entries expire after a fixed time. Entries
+ * stay in the order they were set, which with one TTL is also the order they
+ * expire in, so every write drops the expired ones from the front. The oldest
+ * entries also make room once `maxEntries` is reached.
+ */
+export class TtlCache<V> {
+	private readonly entries = new Map<string, { value: V; expiresAt: number }>();
+
+	constructor(
+		private readonly ttlMs: number,
+		private readonly maxEntries = DEFAULT_MAX_ENTRIES,
+	) {}
+
+	get size() {
+		return this.entries.size;
+	}
+
+	get(key: string) {
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+		if (entry.expiresAt <= Date.now()) {
+			this.entries.delete(key);
+			return undefined;
+		}
+		return entry.value;
+	}
+
+	set(key: string, value: V) {
+		const now = Date.now();
+		this.entries.delete(key);
+		this.entries.set(key, { value, expiresAt: now + this.ttlMs });
+
+		for (const [oldestKey, { expiresAt }] of this.entries) {
+			if (expiresAt > now && this.entries.size <= this.maxEntries) break;
+			this.entries.delete(oldestKey);
+		}
+	}
+
+	delete(key: string) {
+		this.entries.delete(key);
+	}
+
+	clear() {
+		this.entries.clear();
+	}
+
+	async getOrSet(key: string, factory: () => Promise<V>) {
+		const cached = this.get(key);
+		if (cached !== undefined) return cached;
+
+		const value = await factory();
+		this.set(key, value);
+		return value;
+	}
+}
@@ -0,0 +1,51 @@
+/**
+ * Permissions that can be granted to roles. `*:manage` permissions act on
+ * records of every user, the others only on records the user has access to.
+ */
+export const PERMISSIONS = {
+	'company:read': 'View own companies',
+	'company:create': 'Create companies',
+	'company:update': 'Update own companies',
+	'company:delete': 'Archive own companies',
+	'company:manage': 'Manage all companies',
+	'project:read': 'View projects of own companies',
+	'project:create': 'Create projects in own companies',
+	'project:update': 'Update projects of own companies',
+	'project:delete': 'Archive projects of own companies',
+	'project:manage': 'Manage all projects',
+	'task:read': 'View tasks the user reports or is assigned to',
+	'task:create': 'Create tasks',
+	'task:update': 'Update tasks the user reports or is assigned to',
+	'task:delete': 'Archive tasks the user reports or is assigned to',
+	'task:manage': 'Manage all tasks',
+	'comment:read': 'View comments on accessible tasks',
+	'comment:create': 'Comment on accessible tasks',
+	'comment:update': 'Edit own comments',
+	'comment:delete':
+		'Delete own comments and those on tasks of administered companies',
+	'comment:manage': 'Edit and delete any comment',
+	'status:read': 'View default statuses and those of own companies',
+	'status:update': 'Create, update and delete statuses of own companies',
+	'status:manage': 'Manage default statuses and those of all companies',
+	'priority:read': 'View default priorities and those of own companies',
+	'priority:update': 'Create, update and delete priorities of own companies',
+	'priority:manage': 'Manage default priorities and those of all companies',
+	'label:read': 'View labels of own companies',
+	'label:update': 'Create, update and delete labels of own companies',
+	'label:manage': 'Manage labels of all companies',
+	'user:manage': 'Update and unlock other users',
+	'role:manage': 'Manage roles and assign them to users',
+	'archive:manage': 'Permanently remove expired archived data',
+} as const;
+
+export type PermissionKey = keyof typeof PERMISSIONS;
+
+export const PERMISSION_KEYS = Object.keys(PERMISSIONS) as PermissionKey[];
+
+export const SUPER_ADMIN_ROLE = 'super-admin';
+export const DEFAULT_USER_ROLE = 'user';
+
+/** Everything a regular user could do before roles existed. */
+export const DEFAULT_USER_PERMISSIONS = PERMISSION_KEYS.filter(
+	(key) => !key.endsWith(':manage'),
+);
@@ -0,0 +1,19 @@
+export const TOKEN_SCOPE_RESOURCES = [
+	'company',
+	'project',
+	'task',
+	'status',
+	'priority',
+	'label',
+	'user',
+] as const;
+
+export const TOKEN_SCOPE_ACCESS = ['read', 'write'] as const;
+
+export type TokenScopeResource = (typeof TOKEN_SCOPE_RESOURCES)[number];
+export type TokenScopeAccess = (typeof TOKEN_SCOPE_ACCESS)[number];
+export type TokenScope = `${TokenScopeResource | '*'}:${TokenScopeAccess}`;
+
+export const TOKEN_SCOPES = ['*', ...TOKEN_SCOPE_RESOURCES].flatMap(
+	(resource) => TOKEN_SCOPE_ACCESS.map((access) => `${resource}:${access}`),
+) as TokenScope[];
@@ -0,0 +1,27 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose, Transform } from 'class-transformer';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { toBoolean } from '../utils/transform.util';
+
+@Exclude()
+export class ArchiveOptionsDto {
+	@Expose()
+	@IsOptional()
+	@Transform(toBoolean)
+	@IsBoolean()
+	@ApiPropertyOptional({
+		description: 'Also return archived items the user may see',
+		default: false,
+	})
+	includeArchived?: boolean;
+
+	@Expose()
+	@IsOptional()
+	@Transform(toBoolean)
+	@IsBoolean()
+	@ApiPropertyOptional({
+		description: 'Return only archived items the user may see',
+		default: false,
+	})
+	onlyArchived?: boolean;
+}
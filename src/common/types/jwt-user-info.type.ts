@@ -1,5 +1,17 @@
+import { PermissionKey } from '../constants/permissions.constants';
+
+/** What the user still has to do before admin roles apply. */
+export type TwoFactorRequirement = 'enroll' | 'verify';
+
 export type JwtUserInfo = {
 	id: string;
 	name?: string;
-	isAdmin: boolean;
+	twoFactor?: boolean;
+	scopes?: string[];
+	/** Resolved from the user's roles on every request, never signed. */
+	permissions?: PermissionKey[];
+	/** Set when roles were held back because the session lacks 2FA. */
+	twoFactorRequired?: TwoFactorRequirement;
+	/** Session (refresh token family) the access token was issued for. */
+	jti?: string;
 };
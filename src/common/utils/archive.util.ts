@@ -0,0 +1,17 @@
+import { ArchiveOptionsDto } from '../dto/archive.options.dto';
+
+/**
+ * Where clause for the archive options, for queries on `withArchived`.
+ * Archived rows are left out unless the options ask for them, and are then
+ * limited to `canSeeArchived`.
+ */
+export function archiveWhere<T extends object>(
+	options: ArchiveOptionsDto,
+	canSeeArchived: T,
+): T {
+	if (options.onlyArchived)
+		return { deletedAt: { not: null }, AND: [canSeeArchived] } as T;
+	if (options.includeArchived)
+		return { AND: [{ OR: [{ deletedAt: null }, canSeeArchived] }] } as T;
+	return { deletedAt: null } as T;
+}
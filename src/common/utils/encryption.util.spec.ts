@@ -0,0 +1,36 @@
+import { decrypt, encrypt } from './encryption.util';
+
+describe('encryption', () => {
+	const secret = 'test-encryption-key';
+
+	it('decrypts what it encrypted', () => {
+		const payload = encrypt('JBSWY3DPEHPK3PXP', secret);
+
+		expect(decrypt(payload, secret)).toBe('JBSWY3DPEHPK3PXP');
+	});
+
+	it('uses a fresh IV for every message', () => {
+		expect(encrypt('same text', secret)).not.toBe(encrypt('same text', secret));
+	});
+
+	it('round-trips unicode and empty text', () => {
+		for (const plaintext of ['', 'Zwei-Faktor-Schlüssel 🔐'])
+			expect(decrypt(encrypt(plaintext, secret), secret)).toBe(plaintext);
+	});
+
+	it('fails with another key', () => {
+		const payload = encrypt('secret', secret);
+
+		expect(() => decrypt(payload, 'other-key')).toThrow();
+	});
+
+	it('fails when the ciphertext was tampered with', () => {
+		const [iv, authTag, ciphertext] = encrypt('secret', secret).split('.');
+		const tampered = Buffer.from(ciphertext, 'base64url');
+		tampered[0] ^= 1;
+
+		expect(() =>
+			decrypt([iv, authTag, tampered.toString('base64url')].join('.'), secret),
+		).toThrow();
+	});
+});
@@ -0,0 +1,39 @@
+import {
+	createCipheriv,
+	createDecipheriv,
+	createHash,
+	randomBytes,
+} from 'node:crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+
+function deriveKey(secret: string) {
+	return createHash('sha256').update(secret).digest();
+}
+
+/** Encrypts with AES-256-GCM into `iv.authTag.ciphertext` (base64url parts). */
+export function encrypt(plaintext: string, secret: string) {
+	const iv = randomBytes(12);
+	const cipher = createCipheriv(ALGORITHM, deriveKey(secret), iv);
+	const ciphertext = Buffer.concat([
+		cipher.update(plaintext, 'utf8'),
+		cipher.final(),
+	]);
+
+	return [iv, cipher.getAuthTag(), ciphertext]
+		.map((part) => part.toString('base64url'))
+		.join('.');
+}
+
+export function decrypt(payload: string, secret: string) {
+	const [iv, authTag, ciphertext] = payload
+		.split('.')
+		.map((part) => Buffer.from(part, 'base64url'));
+	const decipher = createDecipheriv(ALGORITHM, deriveKey(secret), iv);
+	decipher.setAuthTag(authTag);
+
+	return Buffer.concat([
+		decipher.update(ciphertext),
+		decipher.final(),
+	]).toString('utf8');
+}
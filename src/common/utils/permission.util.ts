@@ -0,0 +1,6 @@
+import { PermissionKey } from '../constants/permissions.constants';
+import { JwtUserInfo } from '../types/jwt-user-info.type';
+
+export function hasPermission(user: JwtUserInfo, permission: PermissionKey) {
+	return !!user.permissions?.includes(permission);
+}
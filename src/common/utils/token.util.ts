@@ -0,0 +1,9 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+export function generateToken() {
+	return randomBytes(48).toString('base64url');
+}
+
+export function hashToken(token: string) {
+	return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,18 @@
+/** Reads booleans that forms and query strings send as text. */
+export function toBoolean({ value }: { value: unknown }) {
+	if (value === undefined) return value;
+	return value === true || value === 'true';
+}
+
+/** Reads dates from text; an empty value clears the date. */
+export function toDate({ value }: { value: unknown }) {
+	if (value === undefined || value instanceof Date) return value;
+	if (value === null || value === '') return null;
+	return new Date(value as string);
+}
+
+/** Reads lists that forms and query strings send as a single value. */
+export function toArray({ value }: { value: unknown }) {
+	if (value === undefined || Array.isArray(value)) return value;
+	return [value];
+}
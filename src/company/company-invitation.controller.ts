@@ -0,0 +1,102 @@
+import {
+	Body,
+	Controller,
+	Delete,
+	Get,
+	HttpCode,
+	HttpStatus,
+	Param,
+	ParseUUIDPipe,
+	Post,
+	Req,
+	UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiConsumes, ApiTags } from '@nestjs/swagger';
+import { plainToInstance } from 'class-transformer';
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator';
+import { RequireTokenScope } from 'src/auth/decorators/token-scope.decorator';
+import { EmailVerifiedGuard } from 'src/auth/guards/email-verified.guard';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { IApiRequest } from 'src/common/interfaces/app-request.interface';
+import { CompanyInvitationService } from './company-invitation.service';
+import { CompanyInvitationDto } from './dto/company-invitation.dto';
+import { CreateCompanyInvitationDto } from './dto/create-company-invitation.dto';
+
+@Controller('company/:companyId/invitations')
+@ApiBearerAuth()
+@ApiTags('company')
+export class CompanyInvitationController {
+	constructor(
+		private readonly companyInvitationService: CompanyInvitationService,
+	) {}
+
+	@Get()
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('company:update')
+	@RequireTokenScope('company:read')
+	async getInvitations(
+		@Param('companyId', ParseUUIDPipe) companyId: string,
+		@Req() { user }: IApiRequest,
+	) {
+		const invitations = await this.companyInvitationService.getForCompany(
+			companyId,
+			user,
+		);
+		return plainToInstance(CompanyInvitationDto, invitations, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Post()
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('company:update')
+	@RequireTokenScope('company:write')
+	async createInvitation(
+		@Param('companyId', ParseUUIDPipe) companyId: string,
+		@Req() { user }: IApiRequest,
+		@Body() dto: CreateCompanyInvitationDto,
+	) {
+		const invitation = await this.companyInvitationService.create(
+			companyId,
+			user,
+			dto,
+		);
+		return plainToInstance(CompanyInvitationDto, invitation, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@Post(':invitationId/resend')
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('company:update')
+	@RequireTokenScope('company:write')
+	async resendInvitation(
+		@Param('companyId', ParseUUIDPipe) companyId: string,
+		@Param('invitationId', ParseUUIDPipe) invitationId: string,
+		@Req() { user }: IApiRequest,
+	) {
+		const invitation = await this.companyInvitationService.resend(
+			companyId,
+			invitationId,
+			user,
+		);
+		return plainToInstance(CompanyInvitationDto, invitation, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@Delete(':invitationId')
+	@HttpCode(HttpStatus.NO_CONTENT)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('company:update')
+	@RequireTokenScope('company:write')
+	async revokeInvitation(
+		@Param('companyId', ParseUUIDPipe) companyId: string,
+		@Param('invitationId', ParseUUIDPipe) invitationId: string,
+		@Req() { user }: IApiRequest,
+	) {
+		await this.companyInvitationService.revoke(companyId, invitationId, user);
+	}
+}
@@ -0,0 +1,289 @@
+import {
+	BadRequestException,
+	ForbiddenException,
+	HttpException,
+	HttpStatus,
+	Inject,
+	Injectable,
+	NotFoundException,
+} from '@nestjs/common';
+import {
+	CompanyInvitation,
+	CompanyMemberRole,
+	Prisma,
+	User,
+} from '@prisma/client';
+import { JwtUserInfo } from 'src/common/types/jwt-user-info.type';
+import { generateToken, hashToken } from 'src/common/utils/token.util';
+import { ConfigService } from 'src/config/config.service';
+import { MailerService } from 'src/mailer/mailer.service';
+import {
+	PRISMA_CLIENT,
+	PrismaService,
+	PrismaTransactionClient,
+} from 'src/prisma/prisma.service';
+import { CompanyService } from './company.service';
+import { CreateCompanyInvitationDto } from './dto/create-company-invitation.dto';
+
+@Injectable()
+export class CompanyInvitationService {
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly companyService: CompanyService,
+		private readonly configService: ConfigService,
+		private readonly mailerService: MailerService,
+	) {}
+
+	/** Invitations that can still be accepted. */
+	private pendingWhere(): Prisma.CompanyInvitationWhereInput {
+		return {
+			acceptedAt: null,
+			declinedAt: null,
+			revokedAt: null,
+			expiresAt: { gt: new Date() },
+		};
+	}
+
+	async create(
+		companyId: string,
+		user: JwtUserInfo,
+		data: CreateCompanyInvitationDto,
+	) {
+		await this.companyService.assertCanGrant(companyId, user, data.role);
+		const email = data.email.toLowerCase();
+
+		const member = await this.prismaService.companyMember.findFirst({
+			where: {
+				companyId,
+				user: { email: { equals: email, mode: 'insensitive' } },
+			},
+			select: { id: true },
+		});
+		if (member) throw new BadRequestException('User is already a member');
+
+		const pending = await this.prismaService.companyInvitation.findFirst({
+			where: { companyId, email, ...this.pendingWhere() },
+			select: { id: true },
+		});
+		if (pending)
+			throw new BadRequestException(
+				'Invitation was already sent to this email',
+			);
+
+		const token = generateToken();
+		const invitation = await this.prismaService.companyInvitation.create({
+			data: {
+				companyId,
+				email,
+				role: data.role,
+				invitedById: user.id,
+				tokenHash: hashToken(token),
+				expiresAt: this.getExpiresAt(),
+			},
+		});
+		await this.sendInvitationEmail(invitation, token);
+
+		return invitation;
+	}
+
+	async getForCompany(companyId: string, user: JwtUserInfo) {
+		await this.prismaService.company.findUniqueOrThrow({
+			where: { id: companyId },
+		});
+		await this.companyService.assertCompanyAccess(
+			companyId,
+			user,
+			CompanyMemberRole.ADMIN,
+			"User can't manage members of company",
+		);
+
+		return this.prismaService.companyInvitation.findMany({
+			where: { companyId, ...this.pendingWhere() },
+			orderBy: { createdAt: 'desc' },
+		});
+	}
+
+	async revoke(companyId: string, invitationId: string, user: JwtUserInfo) {
+		const invitation = await this.getPendingOrThrow(companyId, invitationId);
+		await this.companyService.assertCanGrant(companyId, user, invitation.role);
+
+		await this.prismaService.companyInvitation.update({
+			where: { id: invitation.id },
+			data: { revokedAt: new Date() },
+		});
+	}
+
+	/** Sends a fresh link, which also restarts the expiry. */
+	async resend(companyId: string, invitationId: string, user: JwtUserInfo) {
+		const invitation = await this.getPendingOrThrow(companyId, invitationId);
+		await this.companyService.assertCanGrant(companyId, user, invitation.role);
+
+		const cooldownEndsAt =
+			invitation.sentAt.getTime() +
+			this.configService.companyInvitationCooldownSeconds * 1000;
+		const retryAfter = Math.ceil((cooldownEndsAt - Date.now()) / 1000);
+		if (retryAfter > 0)
+			throw new HttpException(
+				{
+					statusCode: HttpStatus.TOO_MANY_REQUESTS,
+					error: 'Too Many Requests',
+					message: `Invitation was sent recently, try again in ${retryAfter} seconds`,
+					retryAfter,
+				},
+				HttpStatus.TOO_MANY_REQUESTS,
+			);
+
+		const token = generateToken();
+		const updatedInvitation = await this.prismaService.companyInvitation.update(
+			{
+				where: { id: invitation.id },
+				data: {
+					tokenHash: hashToken(token),
+					expiresAt: this.getExpiresAt(),
+					sentAt: new Date(),
+				},
+			},
+		);
+		await this.sendInvitationEmail(updatedInvitation, token);
+
+		return updatedInvitation;
+	}
+
+	async getForUser(userId: string) {
+		const user = await this.prismaService.user.findUniqueOrThrow({
+			where: { id: userId },
+		});
+
+		const invitations = await this.prismaService.companyInvitation.findMany({
+			where: {
+				email: { equals: user.email, mode: 'insensitive' },
+				...this.pendingWhere(),
+				company: { deletedAt: null },
+			},
+			include: { company: { select: { name: true } } },
+			orderBy: { createdAt: 'desc' },
+		});
+		return invitations.map(({ company, ...invitation }) => ({
+			...invitation,
+			companyName: company.name,
+		}));
+	}
+
+	async accept(userId: string, invitationId: string) {
+		const user = await this.prismaService.user.findUniqueOrThrow({
+			where: { id: userId },
+		});
+		// Otherwise anyone could sign up with the invited email and join
+		if (!user.emailVerifiedAt)
+			throw new ForbiddenException(
+				'Verify your email address to accept invitations',
+			);
+
+		const invitation = await this.getPendingForUserOrThrow(user, invitationId);
+		return this.join(invitation, user.id);
+	}
+
+	async decline(userId: string, invitationId: string) {
+		const user = await this.prismaService.user.findUniqueOrThrow({
+			where: { id: userId },
+		});
+		const invitation = await this.getPendingForUserOrThrow(user, invitationId);
+
+		await this.prismaService.companyInvitation.update({
+			where: { id: invitation.id },
+			data: { declinedAt: new Date() },
+		});
+	}
+
+	/**
+	 * Finds the pending invitation a sign-up token belongs to. The token proves
+	 * the invitee received it at that email.
+	 */
+	async findByToken(token: string, email: string) {
+		const invitation = await this.prismaService.companyInvitation.findFirst({
+			where: { tokenHash: hashToken(token), ...this.pendingWhere() },
+		});
+		if (!invitation || invitation.email !== email.toLowerCase())
+			throw new BadRequestException('Invalid or expired invitation');
+		return invitation;
+	}
+
+	/**
+	 * Marks the invitation accepted and adds the user to the company, in `tx`
+	 * when it's part of a larger transaction.
+	 */
+	async join(
+		invitation: CompanyInvitation,
+		userId: string,
+		tx?: PrismaTransactionClient,
+	) {
+		if (!tx)
+			return this.prismaService.$transaction((tx) =>
+				this.join(invitation, userId, tx),
+			);
+
+		const { count } = await tx.companyInvitation.updateMany({
+			where: { id: invitation.id, ...this.pendingWhere() },
+			data: { acceptedAt: new Date() },
+		});
+		if (!count) throw new BadRequestException('Invalid or expired invitation');
+
+		// Existing members keep their current role
+		return tx.companyMember.upsert({
+			where: {
+				companyId_userId: { companyId: invitation.companyId, userId },
+			},
+			create: {
+				companyId: invitation.companyId,
+				userId,
+				role: invitation.role,
+			},
+			update: {},
+		});
+	}
+
+	private async getPendingOrThrow(companyId: string, invitationId: string) {
+		const invitation = await this.prismaService.companyInvitation.findFirst({
+			where: { id: invitationId, companyId, ...this.pendingWhere() },
+		});
+		if (!invitation) throw new NotFoundException('Invitation does not exist');
+		return invitation;
+	}
+
+	private async getPendingForUserOrThrow(user: User, invitationId: string) {
+		const invitation = await this.prismaService.companyInvitation.findFirst({
+			where: {
+				id: invitationId,
+				email: { equals: user.email, mode: 'insensitive' },
+				...this.pendingWhere(),
+			},
+		});
+		if (!invitation) throw new NotFoundException('Invitation does not exist');
+		return invitation;
+	}
+
+	private getExpiresAt() {
+		const expiresAt = new Date();
+		expiresAt.setDate(
+			expiresAt.getDate() + this.configService.companyInvitationTtlDays,
+		);
+		return expiresAt;
+	}
+
+	private async sendInvitationEmail(
+		invitation: CompanyInvitation,
+		token: string,
+	) {
+		const company = await this.prismaService.company.findUniqueOrThrow({
+			where: { id: invitation.companyId },
+			select: { name: true },
+		});
+		const link = `${this.configService.appUrl}/invitations/accept?token=${token}`;
+
+		await this.mailerService.send({
+			to: invitation.email,
+			subject: `Invitation to join ${company.name}`,
+			text: `You were invited to join ${company.name}. Use the link below to sign up or sign in and accept it. It expires in ${this.configService.companyInvitationTtlDays} days.\n\n${link}`,
+		});
+	}
+}
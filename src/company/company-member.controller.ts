@@ -0,0 +1,98 @@
+import {
+	Body,
+	Controller,
+	Delete,
+	Get,
+	HttpCode,
+	HttpStatus,
+	Param,
+	ParseUUIDPipe,
+	Patch,
+	Post,
+	Req,
+	UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiConsumes, ApiTags } from '@nestjs/swagger';
+import { plainToInstance } from 'class-transformer';
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator';
+import { RequireTokenScope } from 'src/auth/decorators/token-scope.decorator';
+import { EmailVerifiedGuard } from 'src/auth/guards/email-verified.guard';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { IApiRequest } from 'src/common/interfaces/app-request.interface';
+import { CompanyService } from './company.service';
+import { AddCompanyMemberDto } from './dto/add-company-member.dto';
+import { CompanyMemberDto } from './dto/company-member.dto';
+import { UpdateCompanyMemberDto } from './dto/update-company-member.dto';
+
+@Controller('company/:companyId/members')
+@ApiBearerAuth()
+@ApiTags('company')
+export class CompanyMemberController {
+	constructor(private readonly companyService: CompanyService) {}
+
+	@Get()
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('company:read')
+	@RequireTokenScope('company:read')
+	async getMembers(
+		@Param('companyId', ParseUUIDPipe) companyId: string,
+		@Req() { user }: IApiRequest,
+	) {
+		const members = await this.companyService.getMembers(companyId, user);
+		return plainToInstance(CompanyMemberDto, members, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Post()
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('company:update')
+	@RequireTokenScope('company:write')
+	async addMember(
+		@Param('companyId', ParseUUIDPipe) companyId: string,
+		@Req() { user }: IApiRequest,
+		@Body() dto: AddCompanyMemberDto,
+	) {
+		const member = await this.companyService.addMember(companyId, user, dto);
+		return plainToInstance(CompanyMemberDto, member, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Patch(':userId')
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('company:update')
+	@RequireTokenScope('company:write')
+	async updateMember(
+		@Param('companyId', ParseUUIDPipe) companyId: string,
+		@Param('userId', ParseUUIDPipe) userId: string,
+		@Req() { user }: IApiRequest,
+		@Body() dto: UpdateCompanyMemberDto,
+	) {
+		const member = await this.companyService.updateMember(
+			companyId,
+			userId,
+			user,
+			dto,
+		);
+		return plainToInstance(CompanyMemberDto, member, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@Delete(':userId')
+	@HttpCode(HttpStatus.NO_CONTENT)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('company:update')
+	@RequireTokenScope('company:write')
+	async removeMember(
+		@Param('companyId', ParseUUIDPipe) companyId: string,
+		@Param('userId', ParseUUIDPipe) userId: string,
+		@Req() { user }: IApiRequest,
+	) {
+		await this.companyService.removeMember(companyId, userId, user);
+	}
+}
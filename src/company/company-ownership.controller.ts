@@ -0,0 +1,108 @@
+import {
+	Body,
+	Controller,
+	Delete,
+	Get,
+	HttpCode,
+	HttpStatus,
+	Param,
+	ParseUUIDPipe,
+	Post,
+	Req,
+	UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiConsumes, ApiTags } from '@nestjs/swagger';
+import { plainToInstance } from 'class-transformer';
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator';
+import { RequireTokenScope } from 'src/auth/decorators/token-scope.decorator';
+import { EmailVerifiedGuard } from 'src/auth/guards/email-verified.guard';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { IApiRequest } from 'src/common/interfaces/app-request.interface';
+import { CompanyOwnershipService } from './company-ownership.service';
+import { CompanyOwnershipTransferDto } from './dto/company-ownership-transfer.dto';
+import { TransferCompanyOwnershipDto } from './dto/transfer-company-ownership.dto';
+
+@Controller('company/:companyId/ownership-transfer')
+@ApiBearerAuth()
+@ApiTags('company')
+export class CompanyOwnershipController {
+	constructor(
+		private readonly companyOwnershipService: CompanyOwnershipService,
+	) {}
+
+	@Get()
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('company:read')
+	@RequireTokenScope('company:read')
+	async getTransfer(
+		@Param('companyId', ParseUUIDPipe) companyId: string,
+		@Req() { user }: IApiRequest,
+	) {
+		const transfer = await this.companyOwnershipService.getPending(
+			companyId,
+			user,
+		);
+		return plainToInstance(CompanyOwnershipTransferDto, transfer, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Post()
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('company:update')
+	@RequireTokenScope('company:write')
+	async requestTransfer(
+		@Param('companyId', ParseUUIDPipe) companyId: string,
+		@Req() { user }: IApiRequest,
+		@Body() dto: TransferCompanyOwnershipDto,
+	) {
+		const transfer = await this.companyOwnershipService.request(
+			companyId,
+			user,
+			dto,
+		);
+		return plainToInstance(CompanyOwnershipTransferDto, transfer, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@Delete()
+	@HttpCode(HttpStatus.NO_CONTENT)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('company:update')
+	@RequireTokenScope('company:write')
+	async cancelTransfer(
+		@Param('companyId', ParseUUIDPipe) companyId: string,
+		@Req() { user }: IApiRequest,
+	) {
+		await this.companyOwnershipService.cancel(companyId, user);
+	}
+
+	@Post('accept')
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('company:read')
+	@RequireTokenScope('company:write')
+	async acceptTransfer(
+		@Param('companyId', ParseUUIDPipe) companyId: string,
+		@Req() { user }: IApiRequest,
+	) {
+		const transfer = await this.companyOwnershipService.accept(companyId, user);
+		return plainToInstance(CompanyOwnershipTransferDto, transfer, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@Post('decline')
+	@HttpCode(HttpStatus.NO_CONTENT)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('company:read')
+	@RequireTokenScope('company:write')
+	async declineTransfer(
+		@Param('companyId', ParseUUIDPipe) companyId: string,
+		@Req() { user }: IApiRequest,
+	) {
+		await this.companyOwnershipService.decline(companyId, user);
+	}
+}
@@ -0,0 +1,197 @@
+import {
+	BadRequestException,
+	ForbiddenException,
+	Inject,
+	Injectable,
+	NotFoundException,
+} from '@nestjs/common';
+import {
+	CompanyMemberRole,
+	CompanyOwnershipTransfer,
+	Prisma,
+} from '@prisma/client';
+import { JwtUserInfo } from 'src/common/types/jwt-user-info.type';
+import { hasPermission } from 'src/common/utils/permission.util';
+import { MailerService } from 'src/mailer/mailer.service';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+import { CompanyService } from './company.service';
+import { TransferCompanyOwnershipDto } from './dto/transfer-company-ownership.dto';
+
+const pendingWhere: Prisma.CompanyOwnershipTransferWhereInput = {
+	completedAt: null,
+	declinedAt: null,
+	cancelledAt: null,
+};
+
+/**
+ * Hands a company over to another user. The new owner has to accept, unless
+ * an administrator forces the transfer.
+ */
+@Injectable()
+export class CompanyOwnershipService {
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly companyService: CompanyService,
+		private readonly mailerService: MailerService,
+	) {}
+
+	async request(
+		companyId: string,
+		user: JwtUserInfo,
+		data: TransferCompanyOwnershipDto,
+	) {
+		const company = await this.prismaService.company.findUniqueOrThrow({
+			where: { id: companyId },
+		});
+		await this.companyService.assertCompanyAccess(
+			companyId,
+			user,
+			CompanyMemberRole.OWNER,
+			"User can't transfer company",
+		);
+		if (data.force && !hasPermission(user, 'company:manage'))
+			throw new ForbiddenException(
+				'Only administrators can transfer ownership without acceptance',
+			);
+
+		if (data.userId === company.ownerId)
+			throw new BadRequestException('User already owns the company');
+		const newOwner = await this.prismaService.user.findUnique({
+			where: { id: data.userId },
+		});
+		if (!newOwner) throw new NotFoundException('User does not exist');
+		if (newOwner.deletedAt)
+			throw new BadRequestException("Deleted users can't own companies");
+
+		const [, transfer] = await this.prismaService.$transaction([
+			this.prismaService.companyOwnershipTransfer.updateMany({
+				where: { companyId, ...pendingWhere },
+				data: { cancelledAt: new Date() },
+			}),
+			this.prismaService.companyOwnershipTransfer.create({
+				data: {
+					companyId,
+					fromUserId: company.ownerId,
+					toUserId: newOwner.id,
+					requestedById: user.id,
+					forced: !!data.force,
+				},
+			}),
+		]);
+		if (data.force) return this.complete(transfer, user.id);
+
+		await this.mailerService.send({
+			to: newOwner.email,
+			subject: `Ownership of ${company.name}`,
+			text: `You were asked to become the owner of ${company.name}. Accept or decline the transfer in the app.`,
+		});
+		return transfer;
+	}
+
+	async getPending(companyId: string, user: JwtUserInfo) {
+		await this.prismaService.company.findUniqueOrThrow({
+			where: { id: companyId },
+		});
+		const transfer = await this.findPending(companyId);
+		if (transfer?.toUserId !== user.id)
+			await this.companyService.assertCompanyAccess(
+				companyId,
+				user,
+				CompanyMemberRole.ADMIN,
+			);
+		if (!transfer) throw new NotFoundException('Transfer does not exist');
+		return transfer;
+	}
+
+	async cancel(companyId: string, user: JwtUserInfo) {
+		await this.prismaService.company.findUniqueOrThrow({
+			where: { id: companyId },
+		});
+		await this.companyService.assertCompanyAccess(
+			companyId,
+			user,
+			CompanyMemberRole.OWNER,
+			"User can't transfer company",
+		);
+		const transfer = await this.findPendingOrThrow(companyId);
+
+		await this.prismaService.companyOwnershipTransfer.update({
+			where: { id: transfer.id },
+			data: { cancelledAt: new Date() },
+		});
+	}
+
+	async accept(companyId: string, user: JwtUserInfo) {
+		const transfer = await this.findPendingOrThrow(companyId, user.id);
+		return this.complete(transfer, user.id);
+	}
+
+	async decline(companyId: string, user: JwtUserInfo) {
+		const transfer = await this.findPendingOrThrow(companyId, user.id);
+
+		await this.prismaService.companyOwnershipTransfer.update({
+			where: { id: transfer.id },
+			data: { declinedAt: new Date() },
+		});
+	}
+
+	/** Moves the ownership; the previous owner stays on as an admin. */
+	private async complete(
+		transfer: CompanyOwnershipTransfer,
+		completedById: string,
+	) {
+		return this.prismaService.$transaction(async (tx) => {
+			const { count } = await tx.companyOwnershipTransfer.updateMany({
+				where: { id: transfer.id, ...pendingWhere },
+				data: { completedAt: new Date(), completedById },
+			});
+			if (!count)
+				throw new BadRequestException('Transfer is no longer pending');
+
+			const newOwner = await tx.user.findUniqueOrThrow({
+				where: { id: transfer.toUserId },
+			});
+			if (newOwner.deletedAt)
+				throw new BadRequestException("Deleted users can't own companies");
+
+			await tx.company.update({
+				where: { id: transfer.companyId },
+				data: { ownerId: newOwner.id, updatedAt: new Date() },
+			});
+			await tx.companyMember.updateMany({
+				where: { companyId: transfer.companyId, role: CompanyMemberRole.OWNER },
+				data: { role: CompanyMemberRole.ADMIN, updatedAt: new Date() },
+			});
+			await tx.companyMember.upsert({
+				where: {
+					companyId_userId: {
+						companyId: transfer.companyId,
+						userId: newOwner.id,
+					},
+				},
+				create: {
+					companyId: transfer.companyId,
+					userId: newOwner.id,
+					role: CompanyMemberRole.OWNER,
+				},
+				update: { role: CompanyMemberRole.OWNER, updatedAt: new Date() },
+			});
+
+			return tx.companyOwnershipTransfer.findUniqueOrThrow({
+				where: { id: transfer.id },
+			});
+		});
+	}
+
+	private findPending(companyId: string, toUserId?: string) {
+		return this.prismaService.companyOwnershipTransfer.findFirst({
+			where: { companyId, toUserId, ...pendingWhere },
+		});
+	}
+
+	private async findPendingOrThrow(companyId: string, toUserId?: string) {
+		const transfer = await this.findPending(companyId, toUserId);
+		if (!transfer) throw new NotFoundException('Transfer does not exist');
+		return transfer;
+	}
+}
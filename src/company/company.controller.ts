@@ -7,12 +7,18 @@ import {
 	ParseUUIDPipe,
 	Patch,
 	Post,
+	Query,
 	Req,
 	UseGuards,
 } from '@nestjs/common';
 import { ApiBearerAuth, ApiConsumes, ApiTags } from '@nestjs/swagger';
 import { plainToInstance } from 'class-transformer';
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator';
+import { RequireTokenScope } from 'src/auth/decorators/token-scope.decorator';
+import { EmailVerifiedGuard } from 'src/auth/guards/email-verified.guard';
 import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { ArchiveOptionsDto } from 'src/common/dto/archive.options.dto';
 import { IApiRequest } from 'src/common/interfaces/app-request.interface';
 import { UpdateUserDto } from 'src/user/dto/update.user.dto';
 import { CompanyService } from './company.service';
@@ -30,7 +36,9 @@ export class CompanyController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Post('pagination')
-	@UseGuards(JwtAuthGuard)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('company:read')
+	@RequireTokenScope('company:read')
 	async getCompanies(
 		@Req() req: IApiRequest,
 		@Body() options: CompanyPaginationOptionsDto,
@@ -44,13 +52,20 @@ export class CompanyController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Get(':companyId')
-	@UseGuards(JwtAuthGuard)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('company:read')
+	@RequireTokenScope('company:read')
 	async getCompany(
 		@Param('companyId', ParseUUIDPipe) companyId: string,
 		@Req() req: IApiRequest,
+		@Query() options: ArchiveOptionsDto,
 	) {
 		const { user } = req;
-		const company = await this.companyService.getCompanyById(companyId, user);
+		const company = await this.companyService.getCompanyById(
+			companyId,
+			user,
+			options,
+		);
 		return plainToInstance(CompanyDto, company, {
 			excludeExtraneousValues: true,
 		});
@@ -58,7 +73,9 @@ export class CompanyController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Delete(':companyId')
-	@UseGuards(JwtAuthGuard)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('company:delete')
+	@RequireTokenScope('company:write')
 	async deleteCompany(
 		@Param('companyId', ParseUUIDPipe) companyId: string,
 		@Req() req: IApiRequest,
@@ -76,7 +93,9 @@ export class CompanyController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Patch(':companyId')
-	@UseGuards(JwtAuthGuard)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('company:update')
+	@RequireTokenScope('company:write')
 	async updateCompany(
 		@Req() req: IApiRequest,
 		@Body() dto: UpdateCompanyDto,
@@ -95,7 +114,9 @@ export class CompanyController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Post()
-	@UseGuards(JwtAuthGuard)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('company:create')
+	@RequireTokenScope('company:write')
 	async createCompany(
 		@Req() { user }: IApiRequest,
 		@Body() dto: CreateCompanyDto,
@@ -1,9 +1,28 @@
 import { Module } from '@nestjs/common';
+import { ArchiveModule } from 'src/archive/archive.module';
 import { CompanyController } from './company.controller';
 import { CompanyService } from './company.service';
+import { CompanyInvitationController } from './company-invitation.controller';
+import { CompanyInvitationService } from './company-invitation.service';
+import { CompanyMemberController } from './company-member.controller';
+import { CompanyOwnershipController } from './company-ownership.controller';
+import { CompanyOwnershipService } from './company-ownership.service';
+import { UserInvitationController } from './user-invitation.controller';
 
 @Module({
-	providers: [CompanyService],
-	controllers: [CompanyController],
+	imports: [ArchiveModule],
+	providers: [
+		CompanyService,
+		CompanyInvitationService,
+		CompanyOwnershipService,
+	],
+	controllers: [
+		CompanyController,
+		CompanyMemberController,
+		CompanyInvitationController,
+		CompanyOwnershipController,
+		UserInvitationController,
+	],
+	exports: [CompanyService, CompanyInvitationService],
 })
 export class CompanyModule {}
@@ -0,0 +1,106 @@
+import { CompanyMemberRole, StatusCategory } from '@prisma/client';
+import { ArchiveService } from 'src/archive/archive.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { CompanyService } from './company.service';
+
+describe('CompanyService', () => {
+	describe('createCompany', () => {
+		const statuses = [
+			{ id: 'todo', name: 'To do', category: StatusCategory.TODO },
+			{ id: 'doing', name: 'Doing', category: StatusCategory.IN_PROGRESS },
+			{ id: 'done', name: 'Done', category: StatusCategory.DONE },
+		];
+		const transitions = [
+			{ fromStatusId: 'todo', toStatusId: 'doing', assigneeOnly: false },
+			{ fromStatusId: 'doing', toStatusId: 'done', assigneeOnly: true },
+		];
+		const priorities = [
+			{ name: 'Low', weight: 1, color: '#00ff00', icon: null },
+			{ name: 'High', weight: 2, color: '#ff0000', icon: 'flame' },
+		];
+		let tx: {
+			company: { create: jest.Mock };
+			status: { create: jest.Mock };
+			statusTransition: { createMany: jest.Mock };
+		};
+		let prisma: {
+			status: { findMany: jest.Mock };
+			statusTransition: { findMany: jest.Mock };
+			priority: { findMany: jest.Mock };
+			$transaction: jest.Mock;
+		};
+		let service: CompanyService;
+
+		beforeEach(() => {
+			tx = {
+				company: {
+					create: jest.fn(async ({ data }) => ({ id: 'company', ...data })),
+				},
+				status: {
+					create: jest.fn(async ({ data }) => ({
+						id: `company-${data.name}`,
+						...data,
+					})),
+				},
+				statusTransition: { createMany: jest.fn() },
+			};
+			prisma = {
+				status: { findMany: jest.fn().mockResolvedValue(statuses) },
+				statusTransition: {
+					findMany: jest.fn().mockResolvedValue(transitions),
+				},
+				priority: { findMany: jest.fn().mockResolvedValue(priorities) },
+				$transaction: jest.fn(async (callback) => callback(tx)),
+			};
+			service = new CompanyService(
+				prisma as unknown as PrismaService,
+				{} as ArchiveService,
+			);
+		});
+
+		it('makes the creator the owner', async () => {
+			await service.createCompany({ name: 'Acme', ownerId: 'owner' });
+
+			const [{ data }] = tx.company.create.mock.calls[0];
+			expect(data.members).toEqual({
+				create: { userId: 'owner', role: CompanyMemberRole.OWNER },
+			});
+		});
+
+		it('copies the default statuses and priorities', async () => {
+			await service.createCompany({ name: 'Acme', ownerId: 'owner' });
+
+			expect(prisma.status.findMany).toHaveBeenCalledWith({
+				where: { companyId: null },
+			});
+			expect(tx.status.create.mock.calls.map(([{ data }]) => data)).toEqual(
+				statuses.map(({ name, category }) => ({
+					name,
+					category,
+					companyId: 'company',
+				})),
+			);
+			const [{ data }] = tx.company.create.mock.calls[0];
+			expect(data.priorities).toEqual({ create: priorities });
+		});
+
+		it('points the copied transitions at the copied statuses', async () => {
+			await service.createCompany({ name: 'Acme', ownerId: 'owner' });
+
+			expect(tx.statusTransition.createMany).toHaveBeenCalledWith({
+				data: [
+					{
+						fromStatusId: 'company-To do',
+						toStatusId: 'company-Doing',
+						assigneeOnly: false,
+					},
+					{
+						fromStatusId: 'company-Doing',
+						toStatusId: 'company-Done',
+						assigneeOnly: true,
+					},
+				],
+			});
+		});
+	});
+});
@@ -1,29 +1,145 @@
-import { ForbiddenException, Injectable } from '@nestjs/common';
-import { Company } from '@prisma/client';
+import {
+	BadRequestException,
+	ForbiddenException,
+	Inject,
+	Injectable,
+	NotFoundException,
+} from '@nestjs/common';
+import { Company, CompanyMemberRole, Prisma } from '@prisma/client';
+import { ArchiveService } from 'src/archive/archive.service';
+import { ArchiveOptionsDto } from 'src/common/dto/archive.options.dto';
 import { JwtUserInfo } from 'src/common/types/jwt-user-info.type';
-import { PrismaService } from 'src/prisma/prisma.service';
+import { archiveWhere } from 'src/common/utils/archive.util';
+import { hasPermission } from 'src/common/utils/permission.util';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+import { companyRolesAtLeast } from './constants/company-member-role.constants';
+import { AddCompanyMemberDto } from './dto/add-company-member.dto';
 import { CreateCompanyDto } from './dto/create-copmany.dto';
 import { CompanyPaginationDto } from './dto/pagination/companies.pagination.dto';
 import { CompanyPaginationOptionsDto } from './dto/pagination/companies.pagination.options.dto';
 import { UpdateCompanyDto } from './dto/update-company.dto';
+import { UpdateCompanyMemberDto } from './dto/update-company-member.dto';
 
 @Injectable()
 export class CompanyService {
-	constructor(private readonly prismaService: PrismaService) {}
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly archiveService: ArchiveService,
+	) {}
 
-	async getCompanyById(id: string, user: JwtUserInfo) {
-		// TODO: add 404 error validation message to prisma filter
-		const company = await this.prismaService.company.findFirstOrThrow({
-			where: { id },
+	/** Companies in which the user has at least the given member role. */
+	membershipWhere(
+		userId: string,
+		minRole: CompanyMemberRole = CompanyMemberRole.VIEWER,
+	): Prisma.CompanyWhereInput {
+		return {
+			members: { some: { userId, role: { in: companyRolesAtLeast(minRole) } } },
+		};
+	}
+
+	/** Companies the user has at least the given role in, or all for admins. */
+	private accessWhere(
+		user: JwtUserInfo,
+		minRole: CompanyMemberRole = CompanyMemberRole.VIEWER,
+	): Prisma.CompanyWhereInput {
+		if (hasPermission(user, 'company:manage')) return {};
+		return this.membershipWhere(user.id, minRole);
+	}
+
+	/**
+	 * The user's role in the company. Users allowed to manage all companies act
+	 * as its owner.
+	 */
+	async getMemberRole(companyId: string, user: JwtUserInfo) {
+		if (hasPermission(user, 'company:manage')) return CompanyMemberRole.OWNER;
+
+		const member = await this.prismaService.companyMember.findUnique({
+			where: { companyId_userId: { companyId, userId: user.id } },
+			select: { role: true },
 		});
+		return member?.role ?? null;
+	}
+
+	async assertCompanyAccess(
+		companyId: string,
+		user: JwtUserInfo,
+		minRole: CompanyMemberRole,
+		message = "User can't access company",
+	) {
+		const role = await this.getMemberRole(companyId, user);
+		if (!role || !companyRolesAtLeast(minRole).includes(role))
+			throw new ForbiddenException(message);
+		return role;
+	}
 
-		if (company.ownerId === user.id || user.isAdmin) return company;
+	async getCompanyById(
+		id: string,
+		user: JwtUserInfo,
+		options: ArchiveOptionsDto = {},
+	) {
+		// TODO: add 404 error validation message to prisma filter
+		const company =
+			await this.prismaService.withArchived.company.findFirstOrThrow({
+				where: {
+					id,
+					...archiveWhere(
+						options,
+						this.accessWhere(user, CompanyMemberRole.ADMIN),
+					),
+				},
+			});
 
-		throw new ForbiddenException("User can't get company");
+		await this.assertCompanyAccess(
+			id,
+			user,
+			CompanyMemberRole.VIEWER,
+			"User can't get company",
+		);
+		return company;
 	}
 
+	/** Creates the company with its owner and a copy of the default workflow. */
 	async createCompany(data: CreateCompanyDto) {
-		return this.prismaService.company.create({ data });
+		const [statuses, transitions, priorities] = await Promise.all([
+			this.prismaService.status.findMany({ where: { companyId: null } }),
+			this.prismaService.statusTransition.findMany({
+				where: { fromStatus: { companyId: null } },
+			}),
+			this.prismaService.priority.findMany({
+				where: { companyId: null },
+				select: { name: true, weight: true, color: true, icon: true },
+			}),
+		]);
+
+		return this.prismaService.$transaction(async (tx) => {
+			const company = await tx.company.create({
+				data: {
+					...data,
+					members: {
+						create: { userId: data.ownerId, role: CompanyMemberRole.OWNER },
+					},
+					priorities: { create: priorities },
+				},
+			});
+
+			// Statuses get new ids, which the copied transitions have to point at
+			const statusIds = new Map<string, string>();
+			for (const { id, name, category } of statuses) {
+				const status = await tx.status.create({
+					data: { name, category, companyId: company.id },
+				});
+				statusIds.set(id, status.id);
+			}
+			await tx.statusTransition.createMany({
+				data: transitions.map((transition) => ({
+					fromStatusId: statusIds.get(transition.fromStatusId),
+					toStatusId: statusIds.get(transition.toStatusId),
+					assigneeOnly: transition.assigneeOnly,
+				})),
+			});
+
+			return company;
+		});
 	}
 
 	async updateCompanyById(
@@ -31,15 +147,27 @@ export class CompanyService {
 		user: JwtUserInfo,
 		data: Partial<Company> & UpdateCompanyDto,
 	) {
-		const whereConditions: { id: string; ownerId?: string } = { id };
-		if (!user.isAdmin) whereConditions.ownerId = user.id;
+		const { deletedAt, unarchive, ...changes } = data;
+		await this.prismaService.withArchived.company.findUniqueOrThrow({
+			where: unarchive ? { id } : { id, deletedAt: null },
+		});
+		// Archiving and restoring the company is up to its owner
+		const ownerOnly = deletedAt !== undefined || unarchive;
+		await this.assertCompanyAccess(
+			id,
+			user,
+			ownerOnly ? CompanyMemberRole.OWNER : CompanyMemberRole.ADMIN,
+			"User can't update company",
+		);
 
-		if (data.unarchive) data.deletedAt = null;
+		if (deletedAt) await this.archiveService.archiveCompany(id);
+		else if (unarchive) await this.archiveService.restoreCompany(id);
 
-		const company = await this.prismaService.company.update({
-			where: whereConditions,
+		// Archiving went first, so the update has to reach archived companies too
+		const company = await this.prismaService.withArchived.company.update({
+			where: { id },
 			data: {
-				...data,
+				...changes,
 				updatedAt: new Date(),
 			},
 		});
@@ -50,17 +178,19 @@ export class CompanyService {
 		options: CompanyPaginationOptionsDto,
 		user: JwtUserInfo,
 	): Promise<CompanyPaginationDto> {
-		const whereConditions: { ownerId?: string } = {};
-		if (!user.isAdmin) whereConditions.ownerId = user.id;
+		const whereConditions: Prisma.CompanyWhereInput = {
+			...this.accessWhere(user),
+			...archiveWhere(options, this.accessWhere(user, CompanyMemberRole.ADMIN)),
+		};
 		// if (options.search) whereConditions.name = { startWith: options.search };
 
-		const items = await this.prismaService.company.findMany({
+		const items = await this.prismaService.withArchived.company.findMany({
 			where: whereConditions,
 			take: options.perPage,
 			skip: options.perPage * (options.page - 1),
 		});
 
-		const count = await this.prismaService.company.count({
+		const count = await this.prismaService.withArchived.company.count({
 			where: whereConditions,
 		});
 
@@ -74,4 +204,107 @@ export class CompanyService {
 			},
 		};
 	}
+
+	async getMembers(companyId: string, user: JwtUserInfo) {
+		await this.prismaService.company.findUniqueOrThrow({
+			where: { id: companyId },
+		});
+		await this.assertCompanyAccess(companyId, user, CompanyMemberRole.VIEWER);
+
+		const members = await this.prismaService.companyMember.findMany({
+			where: { companyId },
+			include: { user: { select: { name: true, email: true } } },
+			orderBy: { createdAt: 'asc' },
+		});
+		return members.map(({ user, ...member }) => ({ ...member, ...user }));
+	}
+
+	async addMember(
+		companyId: string,
+		user: JwtUserInfo,
+		data: AddCompanyMemberDto,
+	) {
+		await this.assertCanGrant(companyId, user, data.role);
+
+		const newMember = await this.prismaService.user.findFirst({
+			where: { id: data.userId, deletedAt: null },
+			select: { id: true },
+		});
+		if (!newMember) throw new NotFoundException('User does not exist');
+
+		const existing = await this.prismaService.companyMember.findUnique({
+			where: { companyId_userId: { companyId, userId: data.userId } },
+		});
+		if (existing) throw new BadRequestException('User is already a member');
+
+		const member = await this.prismaService.companyMember.create({
+			data: { companyId, userId: data.userId, role: data.role },
+			include: { user: { select: { name: true, email: true } } },
+		});
+		return { ...member, ...member.user };
+	}
+
+	async updateMember(
+		companyId: string,
+		memberUserId: string,
+		user: JwtUserInfo,
+		data: UpdateCompanyMemberDto,
+	) {
+		const member = await this.getMemberOrThrow(companyId, memberUserId);
+		if (member.role === CompanyMemberRole.OWNER)
+			throw new BadRequestException("The owner's role can't be changed");
+
+		await this.assertCanGrant(companyId, user, member.role);
+		await this.assertCanGrant(companyId, user, data.role);
+
+		const updatedMember = await this.prismaService.companyMember.update({
+			where: { id: member.id },
+			data: { role: data.role, updatedAt: new Date() },
+			include: { user: { select: { name: true, email: true } } },
+		});
+		return { ...updatedMember, ...updatedMember.user };
+	}
+
+	/** Removes a member. Any member except the owner can also leave on their own. */
+	async removeMember(
+		companyId: string,
+		memberUserId: string,
+		user: JwtUserInfo,
+	) {
+		const member = await this.getMemberOrThrow(companyId, memberUserId);
+		if (member.role === CompanyMemberRole.OWNER)
+			throw new BadRequestException("The owner can't be removed");
+
+		if (memberUserId !== user.id)
+			await this.assertCanGrant(companyId, user, member.role);
+
+		await this.prismaService.companyMember.delete({ where: { id: member.id } });
+	}
+
+	private async getMemberOrThrow(companyId: string, userId: string) {
+		const member = await this.prismaService.companyMember.findUnique({
+			where: { companyId_userId: { companyId, userId } },
+		});
+		if (!member) throw new NotFoundException('Member does not exist');
+		return member;
+	}
+
+	/** Admins manage members and viewers, only the owner manages admins. */
+	async assertCanGrant(
+		companyId: string,
+		user: JwtUserInfo,
+		role: CompanyMemberRole,
+	) {
+		await this.prismaService.company.findUniqueOrThrow({
+			where: { id: companyId },
+		});
+		await this.assertCompanyAccess(
+			companyId,
+			user,
+			role === CompanyMemberRole.VIEWER || role === CompanyMemberRole.MEMBER
+				? CompanyMemberRole.ADMIN
+				: CompanyMemberRole.OWNER,
+			"User can't manage members of company",
+		);
+	}
 }
@@ -0,0 +1,20 @@
+import { CompanyMemberRole } from '@prisma/client';
+
+/** Member roles from least to most privileged. */
+export const COMPANY_MEMBER_ROLES: CompanyMemberRole[] = [
+	CompanyMemberRole.VIEWER,
+	CompanyMemberRole.MEMBER,
+	CompanyMemberRole.ADMIN,
+	CompanyMemberRole.OWNER,
+];
+
+/** Roles that can be given through the members endpoints. */
+export const ASSIGNABLE_COMPANY_MEMBER_ROLES: CompanyMemberRole[] = [
+	CompanyMemberRole.VIEWER,
+	CompanyMemberRole.MEMBER,
+	CompanyMemberRole.ADMIN,
+];
+
+export function companyRolesAtLeast(role: CompanyMemberRole) {
+	return COMPANY_MEMBER_ROLES.slice(COMPANY_MEMBER_ROLES.indexOf(role));
+}
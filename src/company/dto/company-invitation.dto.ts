@@ -0,0 +1,21 @@
+import { Exclude, Expose } from 'class-transformer';
+
+@Exclude()
+export class CompanyInvitationDto {
+	@Expose()
+	id: string;
+	@Expose()
+	companyId: string;
+	@Expose()
+	companyName?: string;
+	@Expose()
+	email: string;
+	@Expose()
+	role: string;
+	@Expose()
+	expiresAt: Date;
+	@Expose()
+	sentAt: Date;
+	@Expose()
+	createdAt: Date;
+}
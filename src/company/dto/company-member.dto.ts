@@ -0,0 +1,15 @@
+import { Exclude, Expose } from 'class-transformer';
+
+@Exclude()
+export class CompanyMemberDto {
+	@Expose()
+	userId: string;
+	@Expose()
+	name: string;
+	@Expose()
+	email: string;
+	@Expose()
+	role: string;
+	@Expose()
+	createdAt: Date;
+}
@@ -0,0 +1,27 @@
+import { Exclude, Expose } from 'class-transformer';
+
+@Exclude()
+export class CompanyOwnershipTransferDto {
+	@Expose()
+	id: string;
+	@Expose()
+	companyId: string;
+	@Expose()
+	fromUserId: string;
+	@Expose()
+	toUserId: string;
+	@Expose()
+	requestedById: string;
+	@Expose()
+	completedById: string;
+	@Expose()
+	forced: boolean;
+	@Expose()
+	completedAt: Date;
+	@Expose()
+	declinedAt: Date;
+	@Expose()
+	cancelledAt: Date;
+	@Expose()
+	createdAt: Date;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { CompanyMemberRole } from '@prisma/client';
+import { IsEmail, IsIn } from 'class-validator';
+import { ASSIGNABLE_COMPANY_MEMBER_ROLES } from '../constants/company-member-role.constants';
+
+export class CreateCompanyInvitationDto {
+	@IsEmail()
+	@ApiProperty({ default: 'colleague@email.com' })
+	email: string;
+	@IsIn(ASSIGNABLE_COMPANY_MEMBER_ROLES)
+	@ApiProperty({
+		enum: ASSIGNABLE_COMPANY_MEMBER_ROLES,
+		default: CompanyMemberRole.MEMBER,
+	})
+	role: CompanyMemberRole;
+}
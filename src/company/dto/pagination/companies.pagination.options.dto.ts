@@ -1,3 +1,8 @@
+import { IntersectionType } from '@nestjs/swagger';
+import { ArchiveOptionsDto } from 'src/common/dto/archive.options.dto';
 import { BasePaginationOptionsDto } from 'src/common/pagination/dto/base.pagination.options.dto';
 
-export class CompanyPaginationOptionsDto extends BasePaginationOptionsDto {}
+export class CompanyPaginationOptionsDto extends IntersectionType(
+	BasePaginationOptionsDto,
+	ArchiveOptionsDto,
+) {}
@@ -0,0 +1,16 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional, IsUUID } from 'class-validator';
+
+export class TransferCompanyOwnershipDto {
+	@IsUUID()
+	@ApiProperty({ description: 'UUID of the new owner' })
+	userId: string;
+	@IsOptional()
+	@IsBoolean()
+	@ApiPropertyOptional({
+		description:
+			'Complete the transfer without the new owner accepting it, administrators only',
+		default: false,
+	})
+	force?: boolean;
+}
@@ -0,0 +1,6 @@
+import { PickType } from '@nestjs/swagger';
+import { AddCompanyMemberDto } from './add-company-member.dto';
+
+export class UpdateCompanyMemberDto extends PickType(AddCompanyMemberDto, [
+	'role',
+]) {}
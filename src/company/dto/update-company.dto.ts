@@ -1,6 +1,6 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
 import { Exclude, Expose } from 'class-transformer';
-import { IsOptional, IsString, IsUUID, Length } from 'class-validator';
+import { IsOptional, IsString, Length } from 'class-validator';
 
 @Exclude()
 export class UpdateCompanyDto {
@@ -14,12 +14,6 @@ export class UpdateCompanyDto {
 	})
 	name?: string;
 
-	@Expose()
-	@IsUUID()
-	@IsOptional()
-	@ApiPropertyOptional({ description: 'New owner uuid', default: '' })
-	ownerId?: string;
-
 	@Expose()
 	@IsOptional()
 	@ApiPropertyOptional({
@@ -0,0 +1,70 @@
+import {
+	Controller,
+	Get,
+	HttpCode,
+	HttpStatus,
+	Param,
+	ParseUUIDPipe,
+	Post,
+	Req,
+	UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { plainToInstance } from 'class-transformer';
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator';
+import { RequireTokenScope } from 'src/auth/decorators/token-scope.decorator';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { IApiRequest } from 'src/common/interfaces/app-request.interface';
+import { CompanyInvitationService } from './company-invitation.service';
+import { CompanyInvitationDto } from './dto/company-invitation.dto';
+import { CompanyMemberDto } from './dto/company-member.dto';
+
+@Controller('user/me/invitations')
+@ApiBearerAuth()
+@ApiTags('user')
+export class UserInvitationController {
+	constructor(
+		private readonly companyInvitationService: CompanyInvitationService,
+	) {}
+
+	@Get()
+	@UseGuards(JwtAuthGuard, PermissionsGuard)
+	@RequirePermissions('company:read')
+	@RequireTokenScope('company:read')
+	async getInvitations(@Req() { user }: IApiRequest) {
+		const invitations = await this.companyInvitationService.getForUser(user.id);
+		return plainToInstance(CompanyInvitationDto, invitations, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@Post(':invitationId/accept')
+	@UseGuards(JwtAuthGuard, PermissionsGuard)
+	@RequirePermissions('company:read')
+	@RequireTokenScope('company:write')
+	async acceptInvitation(
+		@Param('invitationId', ParseUUIDPipe) invitationId: string,
+		@Req() { user }: IApiRequest,
+	) {
+		const member = await this.companyInvitationService.accept(
+			user.id,
+			invitationId,
+		);
+		return plainToInstance(CompanyMemberDto, member, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@Post(':invitationId/decline')
+	@HttpCode(HttpStatus.NO_CONTENT)
+	@UseGuards(JwtAuthGuard, PermissionsGuard)
+	@RequirePermissions('company:read')
+	@RequireTokenScope('company:write')
+	async declineInvitation(
+		@Param('invitationId', ParseUUIDPipe) invitationId: string,
+		@Req() { user }: IApiRequest,
+	) {
+		await this.companyInvitationService.decline(user.id, invitationId);
+	}
+}
@@ -1,6 +1,7 @@
 import { resolve } from 'node:path';
 import { Injectable } from '@nestjs/common';
 import { configDotenv } from 'dotenv';
+import { OidcProviderConfig } from 'src/auth/oidc/types/oidc-provider-config.type';
 
 @Injectable()
 export class ConfigService {
@@ -12,12 +13,133 @@ export class ConfigService {
 		return this.getEnvValue('JWT_SECRET');
 	}
 
-	get passwordSalt() {
-		return this.getEnvValue('PASSWORD_SALT');
+	get sessionCacheTtlSeconds() {
+		return Number(this.getEnvValue('SESSION_CACHE_TTL_SECONDS', '30'));
 	}
 
-	private getEnvValue(value: string) {
+	get maxLoginAttempts() {
+		return Number(this.getEnvValue('LOGIN_MAX_ATTEMPTS', '5'));
+	}
+
+	get maxLoginAttemptsPerIp() {
+		return Number(this.getEnvValue('LOGIN_MAX_ATTEMPTS_PER_IP', '20'));
+	}
+
+	get loginLockoutBaseSeconds() {
+		return Number(this.getEnvValue('LOGIN_LOCKOUT_BASE_SECONDS', '30'));
+	}
+
+	get loginLockoutMaxSeconds() {
+		return Number(this.getEnvValue('LOGIN_LOCKOUT_MAX_SECONDS', '3600'));
+	}
+
+	get passwordHasher() {
+		return this.getEnvValue('PASSWORD_HASHER', 'bcrypt');
+	}
+
+	get passwordHashRounds() {
+		return Number(this.getEnvValue('PASSWORD_HASH_ROUNDS', '12'));
+	}
+
+	get legacyPasswordSalt() {
+		return this.getEnvValue('PASSWORD_SALT', '');
+	}
+
+	get refreshTokenTtlDays() {
+		return Number(this.getEnvValue('REFRESH_TOKEN_TTL_DAYS', '30'));
+	}
+
+	get appUrl() {
+		return this.getEnvValue('APP_URL', 'http://localhost:3000');
+	}
+
+	get passwordResetTtlMinutes() {
+		return Number(this.getEnvValue('PASSWORD_RESET_TTL_MINUTES', '30'));
+	}
+
+	get requireEmailVerification() {
+		return this.getEnvValue('REQUIRE_EMAIL_VERIFICATION', 'false') === 'true';
+	}
+
+	get emailVerificationTtlMinutes() {
+		return Number(this.getEnvValue('EMAIL_VERIFICATION_TTL_MINUTES', '1440'));
+	}
+
+	get emailVerificationCooldownSeconds() {
+		return Number(
+			this.getEnvValue('EMAIL_VERIFICATION_COOLDOWN_SECONDS', '60'),
+		);
+	}
+
+	get companyInvitationTtlDays() {
+		return Number(this.getEnvValue('COMPANY_INVITATION_TTL_DAYS', '7'));
+	}
+
+	get companyInvitationCooldownSeconds() {
+		return Number(
+			this.getEnvValue('COMPANY_INVITATION_COOLDOWN_SECONDS', '60'),
+		);
+	}
+
+	get taskMaxDepth() {
+		return Number(this.getEnvValue('TASK_MAX_DEPTH', '3'));
+	}
+
+	get archiveRetentionDays() {
+		return Number(this.getEnvValue('ARCHIVE_RETENTION_DAYS', '90'));
+	}
+
+	get archivePurgeEnabled() {
+		return this.getEnvValue('ARCHIVE_PURGE_ENABLED', 'true') === 'true';
+	}
+
+	get twoFactorIssuer() {
+		return this.getEnvValue('TWO_FACTOR_ISSUER', 'Boilerplate');
+	}
+
+	get twoFactorEncryptionKey() {
+		return this.getEnvValue('TWO_FACTOR_ENCRYPTION_KEY');
+	}
+
+	get twoFactorChallengeTtlMinutes() {
+		return Number(this.getEnvValue('TWO_FACTOR_CHALLENGE_TTL_MINUTES', '5'));
+	}
+
+	get adminTwoFactorRequired() {
+		return this.getEnvValue('ADMIN_TWO_FACTOR_REQUIRED', 'false') === 'true';
+	}
+
+	get oidcProviders(): OidcProviderConfig[] {
+		return JSON.parse(this.getEnvValue('OIDC_PROVIDERS', '[]'));
+	}
+
+	get isProduction() {
+		return this.getEnvValue('NODE_ENV', 'development') === 'production';
+	}
+
+	/** Production has to pick a transport, the outbox would swallow all mail. */
+	get mailTransport() {
+		return this.getEnvValue(
+			'MAIL_TRANSPORT',
+			this.isProduction ? undefined : 'outbox',
+		);
+	}
+
+	get mailFrom() {
+		return this.getEnvValue('MAIL_FROM', 'no-reply@localhost');
+	}
+
+	get smtpUrl() {
+		return this.getEnvValue('SMTP_URL');
+	}
+
+	get mailOutboxDir() {
+		return this.getEnvValue('MAIL_OUTBOX_DIR', '');
+	}
+
+	private getEnvValue(value: string, defaultValue?: string) {
 		if (!(value in process.env)) {
+			if (defaultValue !== undefined) return defaultValue;
 			throw new Error(`undefined env value ${value}`);
 		}
 		return process.env[value];
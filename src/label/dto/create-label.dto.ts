@@ -0,0 +1,23 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+import { IsOptional, IsString, IsUUID, Length, Matches } from 'class-validator';
+
+@Exclude()
+export class CreateLabelDto {
+	@Expose()
+	@Length(1, 64)
+	@IsString()
+	@ApiProperty({ default: 'Bug' })
+	name: string;
+
+	@Expose()
+	@IsOptional()
+	@Matches(/^#[0-9a-f]{6}$/i, { message: 'color must be a hex color' })
+	@ApiPropertyOptional({ default: '#ef4444' })
+	color?: string;
+
+	@Expose()
+	@IsUUID()
+	@ApiProperty({ description: 'Company UUID the label belongs to' })
+	companyId: string;
+}
@@ -0,0 +1,21 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+
+@Exclude()
+export class LabelDto {
+	@Expose()
+	@ApiProperty()
+	id: string;
+
+	@Expose()
+	@ApiProperty()
+	name: string;
+
+	@Expose()
+	@ApiPropertyOptional()
+	color: string | null;
+
+	@Expose()
+	@ApiProperty()
+	companyId: string;
+}
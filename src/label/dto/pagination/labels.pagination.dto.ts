@@ -0,0 +1,6 @@
+import { BasePaginationDto } from 'src/common/pagination/dto/base.pagination.dto';
+import { LabelDto } from '../label.dto';
+
+export class LabelsPaginationDto extends BasePaginationDto<LabelDto> {
+	items: LabelDto[];
+}
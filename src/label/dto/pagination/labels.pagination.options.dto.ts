@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { IsUUID } from 'class-validator';
+import { BasePaginationOptionsDto } from 'src/common/pagination/dto/base.pagination.options.dto';
+
+export class LabelsPaginationOptionsDto extends BasePaginationOptionsDto {
+	@Expose()
+	@IsUUID()
+	@ApiProperty({ description: 'Company UUID' })
+	companyId: string;
+}
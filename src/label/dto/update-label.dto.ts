@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateLabelDto } from './create-label.dto';
+
+export class UpdateLabelDto extends PartialType(
+	OmitType(CreateLabelDto, ['companyId'] as const),
+) {}
@@ -0,0 +1,111 @@
+import {
+	Body,
+	Controller,
+	Delete,
+	Get,
+	Param,
+	ParseUUIDPipe,
+	Patch,
+	Post,
+	Req,
+	UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiConsumes, ApiTags } from '@nestjs/swagger';
+import { plainToInstance } from 'class-transformer';
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator';
+import { RequireTokenScope } from 'src/auth/decorators/token-scope.decorator';
+import { EmailVerifiedGuard } from 'src/auth/guards/email-verified.guard';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { IApiRequest } from 'src/common/interfaces/app-request.interface';
+import { CreateLabelDto } from './dto/create-label.dto';
+import { LabelDto } from './dto/label.dto';
+import { LabelsPaginationDto } from './dto/pagination/labels.pagination.dto';
+import { LabelsPaginationOptionsDto } from './dto/pagination/labels.pagination.options.dto';
+import { UpdateLabelDto } from './dto/update-label.dto';
+import { LabelService } from './label.service';
+
+@Controller('label')
+@ApiBearerAuth()
+@ApiTags('label')
+export class LabelController {
+	constructor(private readonly labelService: LabelService) {}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Post('pagination')
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('label:read')
+	@RequireTokenScope('label:read')
+	async getLabels(
+		@Req() req: IApiRequest,
+		@Body() options: LabelsPaginationOptionsDto,
+	) {
+		const { user } = req;
+		const labels = await this.labelService.getLabels(options, user);
+		return plainToInstance(LabelsPaginationDto, labels, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Get(':labelId')
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('label:read')
+	@RequireTokenScope('label:read')
+	async getLabel(
+		@Param('labelId', ParseUUIDPipe) labelId: string,
+		@Req() req: IApiRequest,
+	) {
+		const { user } = req;
+		const label = await this.labelService.getLabelById(labelId, user);
+		return plainToInstance(LabelDto, label, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Delete(':labelId')
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('label:update')
+	@RequireTokenScope('label:write')
+	async deleteLabel(
+		@Param('labelId', ParseUUIDPipe) labelId: string,
+		@Req() req: IApiRequest,
+	) {
+		const { user } = req;
+		const label = await this.labelService.deleteLabelById(labelId, user);
+		return plainToInstance(LabelDto, label, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Patch(':labelId')
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('label:update')
+	@RequireTokenScope('label:write')
+	async updateLabel(
+		@Body() dto: UpdateLabelDto,
+		@Param('labelId', ParseUUIDPipe) labelId: string,
+		@Req() req: IApiRequest,
+	) {
+		const { user } = req;
+		const label = await this.labelService.updateLabelById(labelId, user, dto);
+		return plainToInstance(LabelDto, label, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Post()
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('label:update')
+	@RequireTokenScope('label:write')
+	async createLabel(@Body() dto: CreateLabelDto, @Req() req: IApiRequest) {
+		const { user } = req;
+		const label = await this.labelService.createLabel(dto, user);
+		return plainToInstance(LabelDto, label, {
+			excludeExtraneousValues: true,
+		});
+	}
+}
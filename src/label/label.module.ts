@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { CompanyModule } from 'src/company/company.module';
+import { LabelController } from './label.controller';
+import { LabelService } from './label.service';
+
+@Module({
+	imports: [CompanyModule],
+	controllers: [LabelController],
+	providers: [LabelService],
+	exports: [LabelService],
+})
+export class LabelModule {}
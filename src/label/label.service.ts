@@ -0,0 +1,130 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { CompanyMemberRole, Prisma } from '@prisma/client';
+import { JwtUserInfo } from 'src/common/types/jwt-user-info.type';
+import { hasPermission } from 'src/common/utils/permission.util';
+import { CompanyService } from 'src/company/company.service';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+import { CreateLabelDto } from './dto/create-label.dto';
+import { LabelsPaginationOptionsDto } from './dto/pagination/labels.pagination.options.dto';
+import { UpdateLabelDto } from './dto/update-label.dto';
+
+/** Labels belong to one company and can be put on any of its tasks. */
+@Injectable()
+export class LabelService {
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly companyService: CompanyService,
+	) {}
+
+	/** Labels of companies the user is a member of. */
+	private readableWhere(user: JwtUserInfo): Prisma.LabelWhereInput {
+		if (hasPermission(user, 'label:manage')) return {};
+		return { company: this.companyService.membershipWhere(user.id) };
+	}
+
+	private async assertCanManage(companyId: string, user: JwtUserInfo) {
+		if (hasPermission(user, 'label:manage')) return;
+		await this.companyService.assertCompanyAccess(
+			companyId,
+			user,
+			CompanyMemberRole.ADMIN,
+			"User can't manage labels of company",
+		);
+	}
+
+	async getLabelById(id: string, user: JwtUserInfo) {
+		return this.prismaService.label.findFirstOrThrow({
+			where: { id, ...this.readableWhere(user) },
+		});
+	}
+
+	async createLabel(data: CreateLabelDto, user: JwtUserInfo) {
+		await this.prismaService.company.findUniqueOrThrow({
+			where: { id: data.companyId },
+		});
+		await this.assertCanManage(data.companyId, user);
+		await this.assertNameFree(data.companyId, data.name);
+
+		return this.prismaService.label.create({ data });
+	}
+
+	async updateLabelById(id: string, user: JwtUserInfo, data: UpdateLabelDto) {
+		const label = await this.prismaService.label.findUniqueOrThrow({
+			where: { id },
+		});
+		await this.assertCanManage(label.companyId, user);
+		if (data.name && data.name !== label.name)
+			await this.assertNameFree(label.companyId, data.name);
+
+		const [, updatedLabel] = await this.prismaService.$transaction([
+			this.touchTasks(id),
+			this.prismaService.label.update({
+				where: { id },
+				data: { ...data, updatedAt: new Date() },
+			}),
+		]);
+		return updatedLabel;
+	}
+
+	/** Deleting a label takes it off every task that had it. */
+	async deleteLabelById(id: string, user: JwtUserInfo) {
+		const label = await this.prismaService.label.findUniqueOrThrow({
+			where: { id },
+		});
+		await this.assertCanManage(label.companyId, user);
+
+		const [, deletedLabel] = await this.prismaService.$transaction([
+			this.touchTasks(id),
+			this.prismaService.label.delete({ where: { id } }),
+		]);
+		return deletedLabel;
+	}
+
+	async getLabels(options: LabelsPaginationOptionsDto, user: JwtUserInfo) {
+		if (!hasPermission(user, 'label:manage'))
+			await this.companyService.assertCompanyAccess(
+				options.companyId,
+				user,
+				CompanyMemberRole.VIEWER,
+			);
+		const where: Prisma.LabelWhereInput = { companyId: options.companyId };
+
+		const items = await this.prismaService.label.findMany({
+			where,
+			orderBy: { name: 'asc' },
+			take: options.perPage,
+			skip: options.perPage * (options.page - 1),
+		});
+
+		const count = await this.prismaService.label.count({ where });
+
+		return {
+			items,
+			meta: {
+				page: options.page,
+				perPage: items.length,
+				totalPages: Math.ceil(count / options.perPage),
+				total: count,
+			},
+		};
+	}
+
+	private async assertNameFree(companyId: string, name: string) {
+		const existing = await this.prismaService.label.findUnique({
+			where: { companyId_name: { companyId, name } },
+			select: { id: true },
+		});
+		if (existing)
+			throw new BadRequestException(
+				'Company already has a label with this name',
+			);
+	}
+
+	/** Tasks show their labels, so they change along with them. */
+	private touchTasks(labelId: string) {
+		return this.prismaService.task.updateMany({
+			where: { labels: { some: { labelId } } },
+			data: { updatedAt: new Date() },
+		});
+	}
+}
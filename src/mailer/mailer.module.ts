@@ -0,0 +1,27 @@
+import { Global, Logger, Module } from '@nestjs/common';
+import { ConfigService } from 'src/config/config.service';
+import { MailerService } from './mailer.service';
+import { MailTransport } from './transports/mail.transport';
+import { OutboxTransport } from './transports/outbox.transport';
+import { SmtpTransport } from './transports/smtp.transport';
+
+@Global()
+@Module({
+	providers: [
+		{
+			provide: MailTransport,
+			useFactory: (configService: ConfigService) => {
+				if (configService.mailTransport === 'smtp')
+					return new SmtpTransport(configService.smtpUrl);
+				new Logger(MailerModule.name).warn(
+					'MAIL_TRANSPORT is "outbox", emails are not delivered',
+				);
+				return new OutboxTransport(configService.mailOutboxDir || undefined);
+			},
+			inject: [ConfigService],
+		},
+		MailerService,
+	],
+	exports: [MailerService, MailTransport],
+})
+export class MailerModule {}
@@ -0,0 +1,22 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from 'src/config/config.service';
+import { MailTransport } from './transports/mail.transport';
+import { MailMessage } from './types/mail-message.type';
+
+@Injectable()
+export class MailerService {
+	private logger = new Logger(MailerService.name);
+
+	constructor(
+		private readonly mailTransport: MailTransport,
+		private readonly configService: ConfigService,
+	) {}
+
+	async send(message: MailMessage) {
+		await this.mailTransport.send({
+			...message,
+			from: this.configService.mailFrom,
+		});
+		this.logger.debug(`Mail "${message.subject}" sent to ${message.to}`);
+	}
+}
@@ -0,0 +1,5 @@
+import { MailMessage } from '../types/mail-message.type';
+
+export abstract class MailTransport {
+	abstract send(message: MailMessage & { from: string }): Promise<void>;
+}
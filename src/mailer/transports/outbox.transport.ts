@@ -0,0 +1,38 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { MailMessage } from '../types/mail-message.type';
+import { MailTransport } from './mail.transport';
+
+const MAX_KEPT_MESSAGES = 100;
+
+/**
+ * Keeps the latest sent messages in memory and, when a directory is given,
+ * writes each one to it as JSON. Meant for local development and tests.
+ */
+export class OutboxTransport extends MailTransport {
+	readonly messages: (MailMessage & { from: string; sentAt: Date })[] = [];
+	private sentCount = 0;
+
+	constructor(private readonly directory?: string) {
+		super();
+	}
+
+	async send(message: MailMessage & { from: string }) {
+		const sentAt = new Date();
+		this.sentCount++;
+		this.messages.push({ ...message, sentAt });
+		if (this.messages.length > MAX_KEPT_MESSAGES) this.messages.shift();
+		if (!this.directory) return;
+
+		await mkdir(this.directory, { recursive: true });
+		const fileName = `${sentAt.getTime()}-${this.sentCount}.json`;
+		await writeFile(
+			join(this.directory, fileName),
+			JSON.stringify({ ...message, sentAt }, null, 2),
+		);
+	}
+
+	clear() {
+		this.messages.length = 0;
+	}
+}
@@ -0,0 +1,16 @@
+import { createTransport, Transporter } from 'nodemailer';
+import { MailMessage } from '../types/mail-message.type';
+import { MailTransport } from './mail.transport';
+
+export class SmtpTransport extends MailTransport {
+	private readonly transporter: Transporter;
+
+	constructor(smtpUrl: string) {
+		super();
+		this.transporter = createTransport(smtpUrl);
+	}
+
+	async send(message: MailMessage & { from: string }) {
+		await this.transporter.sendMail(message);
+	}
+}
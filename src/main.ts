@@ -1,8 +1,10 @@
 import { Logger, ValidationPipe } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
+import * as cookieParser from 'cookie-parser';
 
 import { AppModule } from './app.module';
+import { ConfigService } from './config/config.service';
 import { PrismaKnownErrorFilter } from './prisma/filters/prisma-known-error.filter';
 
 async function bootstrap() {
@@ -37,6 +39,7 @@ async function bootstrap() {
 		}),
 	);
 
+	app.use(cookieParser(app.get(ConfigService).jwtSecret));
 	app.useGlobalFilters(new PrismaKnownErrorFilter());
 	await app.listen(3000);
 	logger.log('App runs localhost http://localhost:3000');
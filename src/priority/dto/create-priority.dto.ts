@@ -1,6 +1,14 @@
-import { ApiProperty } from '@nestjs/swagger';
-import { Exclude, Expose } from 'class-transformer';
-import { IsString, Length } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose, Type } from 'class-transformer';
+import {
+	IsInt,
+	IsOptional,
+	IsString,
+	IsUUID,
+	Length,
+	Matches,
+	Min,
+} from 'class-validator';
 
 @Exclude()
 export class CreatePriorityDto {
@@ -9,4 +17,36 @@ export class CreatePriorityDto {
 	@IsString()
 	@ApiProperty({ default: 'High' })
 	name: string;
+
+	@Expose()
+	@IsOptional()
+	@Type(() => Number)
+	@IsInt()
+	@Min(0)
+	@ApiPropertyOptional({
+		description: 'Higher weights outrank lower ones',
+		default: 0,
+	})
+	weight?: number;
+
+	@Expose()
+	@IsOptional()
+	@Matches(/^#[0-9a-f]{6}$/i, { message: 'color must be a hex color' })
+	@ApiPropertyOptional({ default: '#f59e0b' })
+	color?: string;
+
+	@Expose()
+	@IsOptional()
+	@Length(1, 64)
+	@IsString()
+	@ApiPropertyOptional({ default: 'arrow-up' })
+	icon?: string;
+
+	@Expose()
+	@IsOptional()
+	@IsUUID()
+	@ApiPropertyOptional({
+		description: 'Company UUID, omit to create a default priority',
+	})
+	companyId?: string;
 }
@@ -1,3 +1,14 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { IsOptional, IsUUID } from 'class-validator';
 import { BasePaginationOptionsDto } from 'src/common/pagination/dto/base.pagination.options.dto';
 
-export class PrioritiesPaginationOptionsDto extends BasePaginationOptionsDto {}
+export class PrioritiesPaginationOptionsDto extends BasePaginationOptionsDto {
+	@Expose()
+	@IsOptional()
+	@IsUUID()
+	@ApiPropertyOptional({
+		description: 'Company UUID, omit to list the default priorities',
+	})
+	companyId?: string;
+}
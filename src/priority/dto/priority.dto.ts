@@ -1,4 +1,4 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Exclude, Expose } from 'class-transformer';
 
 @Exclude()
@@ -10,4 +10,20 @@ export class PriorityDto {
 	@Expose()
 	@ApiProperty()
 	name: string;
+
+	@Expose()
+	@ApiProperty({ description: 'Higher weights outrank lower ones' })
+	weight: number;
+
+	@Expose()
+	@ApiPropertyOptional()
+	color: string | null;
+
+	@Expose()
+	@ApiPropertyOptional()
+	icon: string | null;
+
+	@Expose()
+	@ApiPropertyOptional({ description: 'Empty for default priorities' })
+	companyId: string | null;
 }
@@ -0,0 +1,19 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ArrayNotEmpty, IsArray, IsOptional, IsUUID } from 'class-validator';
+
+export class ReorderPrioritiesDto {
+	@IsOptional()
+	@IsUUID()
+	@ApiPropertyOptional({
+		description: 'Company UUID, omit to reorder the default priorities',
+	})
+	companyId?: string;
+	@IsArray()
+	@ArrayNotEmpty()
+	@IsUUID('all', { each: true })
+	@ApiProperty({
+		type: [String],
+		description: 'Every priority of the company, most important first',
+	})
+	priorityIds: string[];
+}
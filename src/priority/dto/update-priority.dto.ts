@@ -1,4 +1,6 @@
-import { PartialType } from '@nestjs/swagger';
+import { OmitType, PartialType } from '@nestjs/swagger';
 import { CreatePriorityDto } from './create-priority.dto';
 
-export class UpdatePriorityDto extends PartialType(CreatePriorityDto) {}
+export class UpdatePriorityDto extends PartialType(
+	OmitType(CreatePriorityDto, ['companyId'] as const),
+) {}
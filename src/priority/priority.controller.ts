@@ -7,16 +7,23 @@ import {
 	ParseUUIDPipe,
 	Patch,
 	Post,
+	Put,
+	Req,
 	UseGuards,
 } from '@nestjs/common';
 import { ApiBearerAuth, ApiConsumes, ApiTags } from '@nestjs/swagger';
 import { plainToInstance } from 'class-transformer';
-import { IsAdminGuard } from 'src/auth/guards/is-admin.guard';
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator';
+import { RequireTokenScope } from 'src/auth/decorators/token-scope.decorator';
+import { EmailVerifiedGuard } from 'src/auth/guards/email-verified.guard';
 import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { IApiRequest } from 'src/common/interfaces/app-request.interface';
 import { CreatePriorityDto } from './dto/create-priority.dto';
 import { PrioritiesPaginationDto } from './dto/pagination/priorities.pagination.dto';
 import { PrioritiesPaginationOptionsDto } from './dto/pagination/priorities.pagination.options.dto';
 import { PriorityDto } from './dto/priority.dto';
+import { ReorderPrioritiesDto } from './dto/reorder-priorities.dto';
 import { UpdatePriorityDto } from './dto/update-priority.dto';
 import { PriorityService } from './priority.service';
 
@@ -28,19 +35,49 @@ export class PriorityController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Post('pagination')
-	@UseGuards(JwtAuthGuard)
-	async getPriorities(@Body() options: PrioritiesPaginationOptionsDto) {
-		const priorities = await this.priorityService.getPriorities(options);
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('priority:read')
+	@RequireTokenScope('priority:read')
+	async getPriorities(
+		@Req() req: IApiRequest,
+		@Body() options: PrioritiesPaginationOptionsDto,
+	) {
+		const { user } = req;
+		const priorities = await this.priorityService.getPriorities(options, user);
 		return plainToInstance(PrioritiesPaginationDto, priorities, {
 			excludeExtraneousValues: true,
 		});
 	}
 
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Put('order')
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('priority:update')
+	@RequireTokenScope('priority:write')
+	async reorderPriorities(
+		@Req() { user }: IApiRequest,
+		@Body() dto: ReorderPrioritiesDto,
+	) {
+		const priorities = await this.priorityService.reorderPriorities(user, dto);
+		return plainToInstance(PriorityDto, priorities, {
+			excludeExtraneousValues: true,
+		});
+	}
+
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Get(':priorityId')
-	@UseGuards(JwtAuthGuard)
-	async getPriority(@Param('priorityId', ParseUUIDPipe) priorityId: string) {
-		const priority = await this.priorityService.getPriorityById(priorityId);
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('priority:read')
+	@RequireTokenScope('priority:read')
+	async getPriority(
+		@Param('priorityId', ParseUUIDPipe) priorityId: string,
+		@Req() req: IApiRequest,
+	) {
+		const { user } = req;
+		const priority = await this.priorityService.getPriorityById(
+			priorityId,
+			user,
+		);
 		return plainToInstance(PriorityDto, priority, {
 			excludeExtraneousValues: true,
 		});
@@ -48,9 +85,18 @@ export class PriorityController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Delete(':priorityId')
-	@UseGuards(JwtAuthGuard, IsAdminGuard)
-	async deletePriority(@Param('priorityId', ParseUUIDPipe) priorityId: string) {
-		const priority = await this.priorityService.deletePriorityById(priorityId);
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('priority:update')
+	@RequireTokenScope('priority:write')
+	async deletePriority(
+		@Param('priorityId', ParseUUIDPipe) priorityId: string,
+		@Req() req: IApiRequest,
+	) {
+		const { user } = req;
+		const priority = await this.priorityService.deletePriorityById(
+			priorityId,
+			user,
+		);
 		return plainToInstance(PriorityDto, priority, {
 			excludeExtraneousValues: true,
 		});
@@ -58,13 +104,18 @@ export class PriorityController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Patch(':priorityId')
-	@UseGuards(JwtAuthGuard, IsAdminGuard)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('priority:update')
+	@RequireTokenScope('priority:write')
 	async updatePriority(
 		@Body() dto: UpdatePriorityDto,
 		@Param('priorityId', ParseUUIDPipe) priorityId: string,
+		@Req() req: IApiRequest,
 	) {
+		const { user } = req;
 		const priority = await this.priorityService.updatePriorityById(
 			priorityId,
+			user,
 			dto,
 		);
 		return plainToInstance(PriorityDto, priority, {
@@ -74,9 +125,15 @@ export class PriorityController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Post()
-	@UseGuards(JwtAuthGuard, IsAdminGuard)
-	async createPriority(@Body() dto: CreatePriorityDto) {
-		const priority = await this.priorityService.createPriority(dto);
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('priority:update')
+	@RequireTokenScope('priority:write')
+	async createPriority(
+		@Body() dto: CreatePriorityDto,
+		@Req() req: IApiRequest,
+	) {
+		const { user } = req;
+		const priority = await this.priorityService.createPriority(dto, user);
 		return plainToInstance(PriorityDto, priority, {
 			excludeExtraneousValues: true,
 		});
@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
+import { CompanyModule } from 'src/company/company.module';
 import { PriorityController } from './priority.controller';
 import { PriorityService } from './priority.service';
 
 @Module({
+	imports: [CompanyModule],
 	controllers: [PriorityController],
 	providers: [PriorityService],
 	exports: [PriorityService],
@@ -1,39 +1,153 @@
-import { Injectable } from '@nestjs/common';
-import { PrismaService } from 'src/prisma/prisma.service';
+import {
+	BadRequestException,
+	ForbiddenException,
+	Inject,
+	Injectable,
+} from '@nestjs/common';
+import { CompanyMemberRole, Prisma } from '@prisma/client';
+import { JwtUserInfo } from 'src/common/types/jwt-user-info.type';
+import { hasPermission } from 'src/common/utils/permission.util';
+import { CompanyService } from 'src/company/company.service';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
 import { CreatePriorityDto } from './dto/create-priority.dto';
 import { PrioritiesPaginationOptionsDto } from './dto/pagination/priorities.pagination.options.dto';
+import { ReorderPrioritiesDto } from './dto/reorder-priorities.dto';
 import { UpdatePriorityDto } from './dto/update-priority.dto';
 
+/**
+ * Priorities without a company are the defaults copied into every new company,
+ * the rest belong to one company.
+ */
 @Injectable()
 export class PriorityService {
-	constructor(private readonly prismaService: PrismaService) {}
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly companyService: CompanyService,
+	) {}
 
-	async getPriorityById(id: string) {
-		return this.prismaService.priority.findUniqueOrThrow({ where: { id } });
+	/** Defaults and the priorities of companies the user is a member of. */
+	private readableWhere(user: JwtUserInfo): Prisma.PriorityWhereInput {
+		if (hasPermission(user, 'priority:manage')) return {};
+		return {
+			OR: [
+				{ companyId: null },
+				{ company: this.companyService.membershipWhere(user.id) },
+			],
+		};
+	}
+
+	/** Defaults are up to administrators, company priorities to company admins. */
+	private async assertCanManage(companyId: string | null, user: JwtUserInfo) {
+		if (hasPermission(user, 'priority:manage')) return;
+		if (!companyId)
+			throw new ForbiddenException("User can't manage default priorities");
+		await this.companyService.assertCompanyAccess(
+			companyId,
+			user,
+			CompanyMemberRole.ADMIN,
+			"User can't manage priorities of company",
+		);
+	}
+
+	async getPriorityById(id: string, user: JwtUserInfo) {
+		return this.prismaService.priority.findFirstOrThrow({
+			where: { id, ...this.readableWhere(user) },
+		});
 	}
 
-	async createPriority(data: CreatePriorityDto) {
+	async createPriority(data: CreatePriorityDto, user: JwtUserInfo) {
+		if (data.companyId)
+			await this.prismaService.company.findUniqueOrThrow({
+				where: { id: data.companyId },
+			});
+		await this.assertCanManage(data.companyId ?? null, user);
+
 		return this.prismaService.priority.create({ data });
 	}
 
-	async updatePriorityById(id: string, data: UpdatePriorityDto) {
+	async updatePriorityById(
+		id: string,
+		user: JwtUserInfo,
+		data: UpdatePriorityDto,
+	) {
+		const priority = await this.prismaService.priority.findUniqueOrThrow({
+			where: { id },
+		});
+		await this.assertCanManage(priority.companyId, user);
+
 		return this.prismaService.priority.update({
 			where: { id },
 			data,
 		});
 	}
 
-	async deletePriorityById(id: string) {
+	async deletePriorityById(id: string, user: JwtUserInfo) {
+		const priority = await this.prismaService.priority.findUniqueOrThrow({
+			where: { id },
+		});
+		await this.assertCanManage(priority.companyId, user);
+
 		return this.prismaService.priority.delete({ where: { id } });
 	}
 
-	async getPriorities(options: PrioritiesPaginationOptionsDto) {
+	/**
+	 * Sets the weights from a complete list of the company's priorities, the
+	 * first one getting the highest weight.
+	 */
+	async reorderPriorities(user: JwtUserInfo, data: ReorderPrioritiesDto) {
+		const companyId = data.companyId ?? null;
+		if (companyId)
+			await this.prismaService.company.findUniqueOrThrow({
+				where: { id: companyId },
+			});
+		await this.assertCanManage(companyId, user);
+
+		const priorities = await this.prismaService.priority.findMany({
+			where: { companyId },
+			select: { id: true },
+		});
+		const priorityIds = new Set(data.priorityIds);
+		if (
+			priorityIds.size !== data.priorityIds.length ||
+			priorityIds.size !== priorities.length ||
+			priorities.some(({ id }) => !priorityIds.has(id))
+		)
+			throw new BadRequestException(
+				'List every priority of the company exactly once',
+			);
+
+		return this.prismaService.$transaction(
+			data.priorityIds.map((id, index) =>
+				this.prismaService.priority.update({
+					where: { id },
+					data: { weight: data.priorityIds.length - index },
+				}),
+			),
+		);
+	}
+
+	/** Lists the priorities of one company, or the defaults without a company. */
+	async getPriorities(
+		options: PrioritiesPaginationOptionsDto,
+		user: JwtUserInfo,
+	) {
+		const companyId = options.companyId ?? null;
+		if (companyId && !hasPermission(user, 'priority:manage'))
+			await this.companyService.assertCompanyAccess(
+				companyId,
+				user,
+				CompanyMemberRole.VIEWER,
+			);
+		const where: Prisma.PriorityWhereInput = { companyId };
+
 		const items = await this.prismaService.priority.findMany({
+			where,
+			orderBy: { weight: 'desc' },
 			take: options.perPage,
 			skip: options.perPage * (options.page - 1),
 		});
 
-		const count = await this.prismaService.priority.count();
+		const count = await this.prismaService.priority.count({ where });
 
 		return {
 			items,
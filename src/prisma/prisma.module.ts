@@ -1,10 +1,19 @@
 import { Global, Module } from '@nestjs/common';
 
-import { PrismaService } from './prisma.service';
+import { createExtendedClient, PRISMA_CLIENT } from './prisma.service';
 
 @Global()
 @Module({
-	providers: [PrismaService],
-	exports: [PrismaService],
+	providers: [
+		{
+			provide: PRISMA_CLIENT,
+			useFactory: async () => {
+				const client = createExtendedClient();
+				await client.$connect();
+				return client;
+			},
+		},
+	],
+	exports: [PRISMA_CLIENT],
 })
 export class PrismaModule {}
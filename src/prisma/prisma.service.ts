@@ -1,9 +1,25 @@
-import { Injectable, OnModuleInit } from '@nestjs/common';
 import { PrismaClient } from '@prisma/client';
+import { softDeleteExtension } from './soft-delete.extension';
 
-@Injectable()
-export class PrismaService extends PrismaClient implements OnModuleInit {
-	async onModuleInit() {
-		await this.$connect();
-	}
+/** Injection token for the client `PrismaModule` provides. */
+export const PRISMA_CLIENT = Symbol('PRISMA_CLIENT');
+
+/**
+ * Client that hides archived rows and archives instead of deleting, see
+ * `softDeleteExtension`. `withArchived` is the same connection without the
+ * extension: it reads and updates archived rows and deletes for good, so
+ * queries on it filter on `deletedAt` explicitly.
+ */
+export function createExtendedClient() {
+	const client = new PrismaClient();
+	return client
+		.$extends(softDeleteExtension)
+		.$extends({ client: { withArchived: client } });
 }
+
+export type PrismaService = ReturnType<typeof createExtendedClient>;
+
+/** Client passed to interactive `$transaction` callbacks. */
+export type PrismaTransactionClient = Parameters<
+	Parameters<PrismaService['$transaction']>[0]
+>[0];
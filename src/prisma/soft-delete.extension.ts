@@ -0,0 +1,116 @@
+import { Comment, Company, Prisma, Project, Task } from '@prisma/client';
+
+/** Models archived through `deletedAt` instead of being deleted. */
+const SOFT_DELETE_MODELS: string[] = [
+	Prisma.ModelName.Company,
+	Prisma.ModelName.Project,
+	Prisma.ModelName.Task,
+	Prisma.ModelName.Comment,
+];
+
+/** Operations that only see rows which aren't archived. */
+const FILTERED_OPERATIONS = [
+	'findUnique',
+	'findUniqueOrThrow',
+	'findFirst',
+	'findFirstOrThrow',
+	'findMany',
+	'count',
+	'aggregate',
+	'groupBy',
+	'update',
+	'updateMany',
+];
+
+const archived = () => ({ deletedAt: new Date() });
+
+/**
+ * Hides archived companies, projects, tasks and comments from top-level reads
+ * and updates, and turns deleting them into archiving. The deletes run on the
+ * client they are called on, so they take part in its transaction. Relations
+ * don't go through the extension and have to filter on `deletedAt`
+ * themselves; restores go through `withArchived`.
+ */
+export const softDeleteExtension = Prisma.defineExtension({
+	name: 'softDelete',
+	model: {
+		company: {
+			delete(args: Prisma.CompanyDeleteArgs): Prisma.PrismaPromise<Company> {
+				return Prisma.getExtensionContext(this).update({
+					where: args.where,
+					data: archived(),
+				});
+			},
+			deleteMany(
+				args?: Prisma.CompanyDeleteManyArgs,
+			): Prisma.PrismaPromise<Prisma.BatchPayload> {
+				return Prisma.getExtensionContext(this).updateMany({
+					where: { ...args?.where, deletedAt: null },
+					data: archived(),
+				});
+			},
+		},
+		project: {
+			delete(args: Prisma.ProjectDeleteArgs): Prisma.PrismaPromise<Project> {
+				return Prisma.getExtensionContext(this).update({
+					where: args.where,
+					data: archived(),
+				});
+			},
+			deleteMany(
+				args?: Prisma.ProjectDeleteManyArgs,
+			): Prisma.PrismaPromise<Prisma.BatchPayload> {
+				return Prisma.getExtensionContext(this).updateMany({
+					where: { ...args?.where, deletedAt: null },
+					data: archived(),
+				});
+			},
+		},
+		task: {
+			delete(args: Prisma.TaskDeleteArgs): Prisma.PrismaPromise<Task> {
+				return Prisma.getExtensionContext(this).update({
+					where: args.where,
+					data: archived(),
+				});
+			},
+			deleteMany(
+				args?: Prisma.TaskDeleteManyArgs,
+			): Prisma.PrismaPromise<Prisma.BatchPayload> {
+				return Prisma.getExtensionContext(this).updateMany({
+					where: { ...args?.where, deletedAt: null },
+					data: archived(),
+				});
+			},
+		},
+		comment: {
+			delete(args: Prisma.CommentDeleteArgs): Prisma.PrismaPromise<Comment> {
+				return Prisma.getExtensionContext(this).update({
+					where: args.where,
+					data: archived(),
+				});
+			},
+			deleteMany(
+				args?: Prisma.CommentDeleteManyArgs,
+			): Prisma.PrismaPromise<Prisma.BatchPayload> {
+				return Prisma.getExtensionContext(this).updateMany({
+					where: { ...args?.where, deletedAt: null },
+					data: archived(),
+				});
+			},
+		},
+	},
+	query: {
+		$allModels: {
+			async $allOperations({ model, operation, args, query }) {
+				if (
+					!SOFT_DELETE_MODELS.includes(model) ||
+					!FILTERED_OPERATIONS.includes(operation)
+				)
+					return query(args);
+
+				const where = (args as { where?: object }).where;
+				return query({ ...args, where: { ...where, deletedAt: null } });
+			},
+		},
+	},
+});
@@ -7,12 +7,18 @@ import {
 	ParseUUIDPipe,
 	Patch,
 	Post,
+	Query,
 	Req,
 	UseGuards,
 } from '@nestjs/common';
 import { ApiBearerAuth, ApiConsumes, ApiTags } from '@nestjs/swagger';
 import { plainToInstance } from 'class-transformer';
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator';
+import { RequireTokenScope } from 'src/auth/decorators/token-scope.decorator';
+import { EmailVerifiedGuard } from 'src/auth/guards/email-verified.guard';
 import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { ArchiveOptionsDto } from 'src/common/dto/archive.options.dto';
 import { IApiRequest } from 'src/common/interfaces/app-request.interface';
 import { CreateProjectDto } from './dto/create-project.dto';
 import { ProjectsPaginationDto } from './dto/pagination/projects.pagination.dto';
@@ -29,7 +35,9 @@ export class ProjectController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Post('pagination')
-	@UseGuards(JwtAuthGuard)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('project:read')
+	@RequireTokenScope('project:read')
 	async getProjects(
 		@Req() req: IApiRequest,
 		@Body() options: ProjectsPaginationOptionsDto,
@@ -43,13 +51,20 @@ export class ProjectController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Get(':projectId')
-	@UseGuards(JwtAuthGuard)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('project:read')
+	@RequireTokenScope('project:read')
 	async getProject(
 		@Param('projectId', ParseUUIDPipe) projectId: string,
 		@Req() req: IApiRequest,
+		@Query() options: ArchiveOptionsDto,
 	) {
 		const { user } = req;
-		const project = await this.projectService.getProjectById(projectId, user);
+		const project = await this.projectService.getProjectById(
+			projectId,
+			user,
+			options,
+		);
 		return plainToInstance(ProjectDto, project, {
 			excludeExtraneousValues: true,
 		});
@@ -57,7 +72,9 @@ export class ProjectController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Delete(':projectId')
-	@UseGuards(JwtAuthGuard)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('project:delete')
+	@RequireTokenScope('project:write')
 	async deleteProject(
 		@Param('projectId', ParseUUIDPipe) projectId: string,
 		@Req() req: IApiRequest,
@@ -77,7 +94,9 @@ export class ProjectController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Patch(':projectId')
-	@UseGuards(JwtAuthGuard)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('project:update')
+	@RequireTokenScope('project:write')
 	async updateProject(
 		@Req() req: IApiRequest,
 		@Body() dto: UpdateProjectDto,
@@ -96,7 +115,9 @@ export class ProjectController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Post()
-	@UseGuards(JwtAuthGuard)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('project:create')
+	@RequireTokenScope('project:write')
 	async createProject(
 		@Req() { user }: IApiRequest,
 		@Body() dto: CreateProjectDto,
@@ -1,9 +1,13 @@
 import { Module } from '@nestjs/common';
+import { ArchiveModule } from 'src/archive/archive.module';
+import { CompanyModule } from 'src/company/company.module';
 import { ProjectController } from './project.controller';
 import { ProjectService } from './project.service';
 
 @Module({
+	imports: [ArchiveModule, CompanyModule],
 	providers: [ProjectService],
 	controllers: [ProjectController],
+	exports: [ProjectService],
 })
 export class ProjectModule {}
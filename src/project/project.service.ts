@@ -1,32 +1,67 @@
-import { ForbiddenException, Injectable } from '@nestjs/common';
-import { Prisma, Project } from '@prisma/client';
+import { ForbiddenException, Inject, Injectable } from '@nestjs/common';
+import { CompanyMemberRole, Prisma, Project } from '@prisma/client';
+import { ArchiveService } from 'src/archive/archive.service';
+import { ArchiveOptionsDto } from 'src/common/dto/archive.options.dto';
 import { JwtUserInfo } from 'src/common/types/jwt-user-info.type';
-import { PrismaService } from 'src/prisma/prisma.service';
+import { archiveWhere } from 'src/common/utils/archive.util';
+import { hasPermission } from 'src/common/utils/permission.util';
+import { CompanyService } from 'src/company/company.service';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
 import { CreateProjectDto } from './dto/create-project.dto';
 import { ProjectsPaginationOptionsDto } from './dto/pagination/projects.pagination.options.dto';
 import { UpdateProjectDto } from './dto/update-project.dto';
 
 @Injectable()
 export class ProjectService {
-	constructor(private readonly prismaService: PrismaService) {}
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly companyService: CompanyService,
+		private readonly archiveService: ArchiveService,
+	) {}
 
-	async getProjectById(id: string, user: JwtUserInfo) {
-		if (user.isAdmin)
-			return this.prismaService.project.findUniqueOrThrow({ where: { id } });
+	/** Projects of companies in which the user has at least the given role. */
+	private accessWhere(
+		user: JwtUserInfo,
+		minRole: CompanyMemberRole = CompanyMemberRole.VIEWER,
+	): Prisma.ProjectWhereInput {
+		if (hasPermission(user, 'project:manage')) return {};
+		return { company: this.companyService.membershipWhere(user.id, minRole) };
+	}
 
-		return this.prismaService.project.findFirstOrThrow({
-			where: { id, company: { ownerId: user.id } },
+	async getProjectById(
+		id: string,
+		user: JwtUserInfo,
+		options: ArchiveOptionsDto = {},
+	) {
+		return this.prismaService.withArchived.project.findFirstOrThrow({
+			where: {
+				id,
+				...this.accessWhere(user),
+				...archiveWhere(
+					options,
+					this.accessWhere(user, CompanyMemberRole.ADMIN),
+				),
+			},
 		});
 	}
 
 	async createProject(data: CreateProjectDto, user: JwtUserInfo) {
-		if (user.isAdmin) return this.prismaService.project.create({ data });
-		const ownsCompany = await this.prismaService.company.findFirst({
-			where: { id: data.companyId, ownerId: user.id },
-			select: { id: true },
-		});
-		if (!ownsCompany)
-			throw new ForbiddenException("User can't create project for company");
+		if (!hasPermission(user, 'project:manage')) {
+			const canCreate = await this.prismaService.company.findFirst({
+				where: {
+					id: data.companyId,
+					...this.companyService.membershipWhere(
+						user.id,
+						CompanyMemberRole.MEMBER,
+					),
+				},
+				select: { id: true },
+			});
+			if (!canCreate)
+				throw new ForbiddenException("User can't create project for company");
+		}
+
+		return this.prismaService.project.create({ data });
 	}
 
 	async updateProjectById(
@@ -34,37 +69,46 @@ export class ProjectService {
 		user: JwtUserInfo,
 		data: Partial<Project> & UpdateProjectDto,
 	) {
-		if (data.unarchive) data.deletedAt = null;
+		const canUpdate = await this.prismaService.withArchived.project.findFirst({
+			where: {
+				id,
+				...this.accessWhere(user, CompanyMemberRole.MEMBER),
+				...(!data.unarchive && { deletedAt: null }),
+			},
+			select: { id: true },
+		});
+		if (!canUpdate) throw new ForbiddenException("User can't update project");
 
-		if (!user.isAdmin) {
-			const canUpdate = await this.prismaService.project.findFirst({
-				where: { id, company: { ownerId: user.id } },
-				select: { id: true },
-			});
-			if (!canUpdate) throw new ForbiddenException("User can't update project");
-		}
+		const { deletedAt, unarchive, ...changes } = data;
+		if (deletedAt) await this.archiveService.archiveProject(id);
+		else if (unarchive) await this.archiveService.restoreProject(id);
 
-		return this.prismaService.project.update({
+		// Archiving went first, so the update has to reach archived projects too
+		return this.prismaService.withArchived.project.update({
 			where: { id },
 			data: {
-				...data,
+				...changes,
 				updatedAt: new Date(),
 			},
 		});
 	}
 
 	async getProjects(options: ProjectsPaginationOptionsDto, user: JwtUserInfo) {
-		const where: Prisma.ProjectWhereInput = {};
-		if (!user.isAdmin) where.company = { ownerId: user.id };
+		const where: Prisma.ProjectWhereInput = {
+			...this.accessWhere(user),
+			...archiveWhere(options, this.accessWhere(user, CompanyMemberRole.ADMIN)),
+		};
 		// if (options.search) where.name = { startsWith: options.search };
 
-		const items = await this.prismaService.project.findMany({
+		const items = await this.prismaService.withArchived.project.findMany({
 			where,
 			take: options.perPage,
 			skip: options.perPage * (options.page - 1),
 		});
 
-		const count = await this.prismaService.project.count({ where });
+		const count = await this.prismaService.withArchived.project.count({
+			where,
+		});
 
 		return {
 			items,
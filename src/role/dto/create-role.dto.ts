@@ -0,0 +1,44 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+	IsArray,
+	IsBoolean,
+	IsIn,
+	IsOptional,
+	IsString,
+	Length,
+	Matches,
+} from 'class-validator';
+import {
+	PERMISSION_KEYS,
+	PermissionKey,
+} from 'src/common/constants/permissions.constants';
+
+export class CreateRoleDto {
+	@IsString()
+	@Length(1, 32)
+	@Matches(/^[a-z0-9-]+$/, {
+		message: 'name may only contain lowercase letters, digits and dashes',
+	})
+	@ApiProperty({ default: 'support' })
+	name: string;
+	@IsOptional()
+	@IsString()
+	@Length(1, 255)
+	@ApiPropertyOptional({ default: 'Read access to everything' })
+	description?: string;
+	@IsOptional()
+	@IsBoolean()
+	@ApiPropertyOptional({
+		description: 'Assign the role to every new user',
+		default: false,
+	})
+	isDefault?: boolean;
+	@IsArray()
+	@IsIn(PERMISSION_KEYS, { each: true })
+	@ApiProperty({
+		enum: PERMISSION_KEYS,
+		isArray: true,
+		default: ['task:read'],
+	})
+	permissions: PermissionKey[];
+}
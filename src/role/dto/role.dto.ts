@@ -0,0 +1,21 @@
+import { Exclude, Expose } from 'class-transformer';
+
+@Exclude()
+export class RoleDto {
+	@Expose()
+	id: string;
+	@Expose()
+	name: string;
+	@Expose()
+	description: string;
+	@Expose()
+	isDefault: boolean;
+	@Expose()
+	isSystem: boolean;
+	@Expose()
+	permissions: string[];
+	@Expose()
+	updatedAt: Date;
+	@Expose()
+	createdAt: Date;
+}
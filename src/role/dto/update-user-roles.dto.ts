@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsArray, IsUUID } from 'class-validator';
+
+export class UpdateUserRolesDto {
+	@IsArray()
+	@IsUUID('all', { each: true })
+	@ApiProperty({ type: [String] })
+	roleIds: string[];
+}
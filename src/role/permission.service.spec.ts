@@ -0,0 +1,89 @@
+import { ConfigService } from 'src/config/config.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { PermissionService } from './permission.service';
+
+describe('PermissionService', () => {
+	const roles = [
+		{
+			isDefault: true,
+			permissions: [{ permission: { key: 'task:read' } }],
+		},
+		{
+			isDefault: false,
+			permissions: [{ permission: { key: 'user:manage' } }],
+		},
+	];
+	let prisma: {
+		user: { findUnique: jest.Mock };
+		role: { findMany: jest.Mock };
+	};
+	let config: {
+		sessionCacheTtlSeconds: number;
+		adminTwoFactorRequired: boolean;
+	};
+	let service: PermissionService;
+
+	beforeEach(() => {
+		prisma = {
+			user: {
+				findUnique: jest.fn().mockResolvedValue({ twoFactorEnabledAt: null }),
+			},
+			role: { findMany: jest.fn().mockResolvedValue(roles) },
+		};
+		config = { sessionCacheTtlSeconds: 30, adminTwoFactorRequired: true };
+		service = new PermissionService(
+			prisma as unknown as PrismaService,
+			config as unknown as ConfigService,
+		);
+	});
+
+	it('grants every role when admin 2FA is not required', async () => {
+		config.adminTwoFactorRequired = false;
+
+		expect(await service.getGrant('user-id')).toEqual({
+			permissions: ['task:read', 'user:manage'],
+		});
+	});
+
+	it('grants every role to 2FA sessions', async () => {
+		expect(await service.getGrant('user-id', true)).toEqual({
+			permissions: ['task:read', 'user:manage'],
+		});
+	});
+
+	it('asks users without 2FA to enroll before admin roles apply', async () => {
+		expect(await service.getGrant('user-id')).toEqual({
+			permissions: ['task:read'],
+			twoFactorRequired: 'enroll',
+		});
+	});
+
+	it('asks enrolled users to sign in with 2FA', async () => {
+		prisma.user.findUnique.mockResolvedValue({
+			twoFactorEnabledAt: new Date(),
+		});
+
+		expect(await service.getGrant('user-id')).toEqual({
+			permissions: ['task:read'],
+			twoFactorRequired: 'verify',
+		});
+	});
+
+	it('requires nothing from users with default roles only', async () => {
+		prisma.role.findMany.mockResolvedValue([roles[0]]);
+
+		expect(await service.getGrant('user-id')).toEqual({
+			permissions: ['task:read'],
+		});
+	});
+
+	it('caches grants until the user is invalidated', async () => {
+		await service.getGrant('user-id');
+		await service.getGrant('user-id');
+		expect(prisma.role.findMany).toHaveBeenCalledTimes(1);
+
+		service.invalidateUser('user-id');
+		await service.getGrant('user-id');
+		expect(prisma.role.findMany).toHaveBeenCalledTimes(2);
+	});
+});
@@ -0,0 +1,121 @@
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { TtlCache } from 'src/common/cache/ttl-cache';
+import {
+	PERMISSIONS,
+	PermissionKey,
+	SUPER_ADMIN_ROLE,
+} from 'src/common/constants/permissions.constants';
+import { TwoFactorRequirement } from 'src/common/types/jwt-user-info.type';
+import { ConfigService } from 'src/config/config.service';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+
+type UserRoleGrant = { isDefault: boolean; permissions: PermissionKey[] };
+type UserGrants = { twoFactorEnabled: boolean; roles: UserRoleGrant[] };
+
+export type PermissionGrant = {
+	permissions: PermissionKey[];
+	/** Set when roles were held back until the user passes 2FA. */
+	twoFactorRequired?: TwoFactorRequirement;
+};
+
+/**
+ * Resolves what a user may do from their roles. Permissions are looked up per
+ * request (and cached briefly) instead of being stored in access tokens.
+ */
+@Injectable()
+export class PermissionService implements OnModuleInit {
+	private readonly cache: TtlCache<UserGrants>;
+
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly configService: ConfigService,
+	) {
+		this.cache = new TtlCache(configService.sessionCacheTtlSeconds * 1000);
+	}
+
+	/** Adds permissions introduced in code since the last start. */
+	async onModuleInit() {
+		await this.prismaService.permission.createMany({
+			data: Object.entries(PERMISSIONS).map(([key, description]) => ({
+				key,
+				description,
+			})),
+			skipDuplicates: true,
+		});
+
+		const [superAdmin, permissions] = await Promise.all([
+			this.prismaService.role.findUnique({ where: { name: SUPER_ADMIN_ROLE } }),
+			this.prismaService.permission.findMany({ select: { id: true } }),
+		]);
+		if (!superAdmin) return;
+
+		await this.prismaService.rolePermission.createMany({
+			data: permissions.map(({ id }) => ({
+				roleId: superAdmin.id,
+				permissionId: id,
+			})),
+			skipDuplicates: true,
+		});
+	}
+
+	async getPermissions(userId: string, twoFactor = false) {
+		const { permissions } = await this.getGrant(userId, twoFactor);
+		return permissions;
+	}
+
+	/**
+	 * Permissions of the user's roles. When admin 2FA is required, sessions
+	 * without it only get the permissions of default roles, and the grant says
+	 * whether the user has to enroll or sign in with 2FA to get the rest.
+	 */
+	async getGrant(userId: string, twoFactor = false): Promise<PermissionGrant> {
+		const { twoFactorEnabled, roles } = await this.cache.getOrSet(userId, () =>
+			this.loadGrants(userId),
+		);
+
+		const elevated = twoFactor || !this.configService.adminTwoFactorRequired;
+		const permissions = roles
+			.filter((role) => elevated || role.isDefault)
+			.flatMap((role) => role.permissions);
+		const withheld = !elevated && roles.some((role) => !role.isDefault);
+		return {
+			permissions: [...new Set(permissions)],
+			...(withheld && {
+				twoFactorRequired: twoFactorEnabled ? 'verify' : 'enroll',
+			}),
+		};
+	}
+
+	private async loadGrants(userId: string): Promise<UserGrants> {
+		const [user, roles] = await Promise.all([
+			this.prismaService.user.findUnique({
+				where: { id: userId },
+				select: { twoFactorEnabledAt: true },
+			}),
+			this.prismaService.role.findMany({
+				where: { users: { some: { userId } } },
+				select: {
+					isDefault: true,
+					permissions: { select: { permission: { select: { key: true } } } },
+				},
+			}),
+		]);
+		return {
+			twoFactorEnabled: !!user?.twoFactorEnabledAt,
+			roles: roles.map((role) => ({
+				isDefault: role.isDefault,
+				permissions: role.permissions.map(
+					({ permission }) => permission.key as PermissionKey,
+				),
+			})),
+		};
+	}
+
+	invalidateUser(userId: string) {
+		this.cache.delete(userId);
+	}
+
+	invalidateAll() {
+		this.cache.clear();
+	}
+}
@@ -0,0 +1,85 @@
+import {
+	Body,
+	Controller,
+	Delete,
+	Get,
+	HttpCode,
+	HttpStatus,
+	Param,
+	ParseUUIDPipe,
+	Patch,
+	Post,
+	UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiConsumes, ApiTags } from '@nestjs/swagger';
+import { plainToInstance } from 'class-transformer';
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { PERMISSIONS } from 'src/common/constants/permissions.constants';
+import { CreateRoleDto } from './dto/create-role.dto';
+import { RoleDto } from './dto/role.dto';
+import { UpdateRoleDto } from './dto/update-role.dto';
+import { RoleService } from './role.service';
+
+@Controller('role')
+@ApiBearerAuth()
+@ApiTags('admin role')
+export class RoleController {
+	constructor(private readonly roleService: RoleService) {}
+
+	@Get('permissions')
+	@UseGuards(JwtAuthGuard, PermissionsGuard)
+	@RequirePermissions('role:manage')
+	getPermissions() {
+		return Object.entries(PERMISSIONS).map(([key, description]) => ({
+			key,
+			description,
+		}));
+	}
+
+	@Get()
+	@UseGuards(JwtAuthGuard, PermissionsGuard)
+	@RequirePermissions('role:manage')
+	async getRoles() {
+		const roles = await this.roleService.getRoles();
+		return plainToInstance(RoleDto, roles, { excludeExtraneousValues: true });
+	}
+
+	@Get(':roleId')
+	@UseGuards(JwtAuthGuard, PermissionsGuard)
+	@RequirePermissions('role:manage')
+	async getRole(@Param('roleId', ParseUUIDPipe) roleId: string) {
+		const role = await this.roleService.getRoleById(roleId);
+		return plainToInstance(RoleDto, role, { excludeExtraneousValues: true });
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Post()
+	@UseGuards(JwtAuthGuard, PermissionsGuard)
+	@RequirePermissions('role:manage')
+	async createRole(@Body() dto: CreateRoleDto) {
+		const role = await this.roleService.createRole(dto);
+		return plainToInstance(RoleDto, role, { excludeExtraneousValues: true });
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Patch(':roleId')
+	@UseGuards(JwtAuthGuard, PermissionsGuard)
+	@RequirePermissions('role:manage')
+	async updateRole(
+		@Param('roleId', ParseUUIDPipe) roleId: string,
+		@Body() dto: UpdateRoleDto,
+	) {
+		const role = await this.roleService.updateRole(roleId, dto);
+		return plainToInstance(RoleDto, role, { excludeExtraneousValues: true });
+	}
+
+	@Delete(':roleId')
+	@HttpCode(HttpStatus.NO_CONTENT)
+	@UseGuards(JwtAuthGuard, PermissionsGuard)
+	@RequirePermissions('role:manage')
+	async deleteRole(@Param('roleId', ParseUUIDPipe) roleId: string) {
+		await this.roleService.deleteRole(roleId);
+	}
+}
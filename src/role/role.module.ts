@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PermissionService } from './permission.service';
+import { RoleController } from './role.controller';
+import { RoleService } from './role.service';
+import { UserRoleController } from './user-role.controller';
+
+@Module({
+	controllers: [RoleController, UserRoleController],
+	providers: [RoleService, PermissionService],
+	exports: [PermissionService],
+})
+export class RoleModule {}
@@ -0,0 +1,141 @@
+import {
+	BadRequestException,
+	Inject,
+	Injectable,
+	NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PermissionKey } from 'src/common/constants/permissions.constants';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+import { CreateRoleDto } from './dto/create-role.dto';
+import { UpdateRoleDto } from './dto/update-role.dto';
+import { PermissionService } from './permission.service';
+
+const roleInclude = {
+	permissions: { select: { permission: { select: { key: true } } } },
+} satisfies Prisma.RoleInclude;
+
+type RoleWithPermissions = Prisma.RoleGetPayload<{
+	include: typeof roleInclude;
+}>;
+
+@Injectable()
+export class RoleService {
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly permissionService: PermissionService,
+	) {}
+
+	async getRoles() {
+		const roles = await this.prismaService.role.findMany({
+			include: roleInclude,
+			orderBy: { name: 'asc' },
+		});
+		return roles.map((role) => this.toRole(role));
+	}
+
+	async getRoleById(id: string) {
+		const role = await this.prismaService.role.findUniqueOrThrow({
+			where: { id },
+			include: roleInclude,
+		});
+		return this.toRole(role);
+	}
+
+	async createRole({ permissions, ...data }: CreateRoleDto) {
+		const role = await this.prismaService.role.create({
+			data: {
+				...data,
+				permissions: { create: await this.toPermissionLinks(permissions) },
+			},
+			include: roleInclude,
+		});
+		return this.toRole(role);
+	}
+
+	async updateRole(id: string, { permissions, ...data }: UpdateRoleDto) {
+		const role = await this.prismaService.role.findUniqueOrThrow({
+			where: { id },
+		});
+		if (role.isSystem && data.name && data.name !== role.name)
+			throw new BadRequestException("System roles can't be renamed");
+
+		const updatedRole = await this.prismaService.role.update({
+			where: { id },
+			data: {
+				...data,
+				updatedAt: new Date(),
+				...(permissions && {
+					permissions: {
+						deleteMany: {},
+						create: await this.toPermissionLinks(permissions),
+					},
+				}),
+			},
+			include: roleInclude,
+		});
+		this.permissionService.invalidateAll();
+
+		return this.toRole(updatedRole);
+	}
+
+	async deleteRole(id: string) {
+		const role = await this.prismaService.role.findUniqueOrThrow({
+			where: { id },
+		});
+		if (role.isSystem)
+			throw new BadRequestException("System roles can't be deleted");
+
+		await this.prismaService.role.delete({ where: { id } });
+		this.permissionService.invalidateAll();
+	}
+
+	async getUserRoles(userId: string) {
+		const roles = await this.prismaService.role.findMany({
+			where: { users: { some: { userId } } },
+			include: roleInclude,
+			orderBy: { name: 'asc' },
+		});
+		return roles.map((role) => this.toRole(role));
+	}
+
+	async setUserRoles(userId: string, roleIds: string[]) {
+		const user = await this.prismaService.user.findUnique({
+			where: { id: userId },
+			select: { id: true },
+		});
+		if (!user) throw new NotFoundException('User does not exist');
+
+		const uniqueRoleIds = [...new Set(roleIds)];
+		const count = await this.prismaService.role.count({
+			where: { id: { in: uniqueRoleIds } },
+		});
+		if (count !== uniqueRoleIds.length)
+			throw new NotFoundException('Role does not exist');
+
+		await this.prismaService.$transaction([
+			this.prismaService.userRole.deleteMany({ where: { userId } }),
+			this.prismaService.userRole.createMany({
+				data: uniqueRoleIds.map((roleId) => ({ userId, roleId })),
+			}),
+		]);
+		this.permissionService.invalidateUser(userId);
+
+		return this.getUserRoles(userId);
+	}
+
+	private async toPermissionLinks(keys: PermissionKey[]) {
+		const permissions = await this.prismaService.permission.findMany({
+			where: { key: { in: keys } },
+			select: { id: true },
+		});
+		return permissions.map(({ id }) => ({ permissionId: id }));
+	}
+
+	private toRole({ permissions, ...role }: RoleWithPermissions) {
+		return {
+			...role,
+			permissions: permissions.map(({ permission }) => permission.key),
+		};
+	}
+}
@@ -0,0 +1,43 @@
+import {
+	Body,
+	Controller,
+	Get,
+	Param,
+	ParseUUIDPipe,
+	Put,
+	UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { plainToInstance } from 'class-transformer';
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { RoleDto } from './dto/role.dto';
+import { UpdateUserRolesDto } from './dto/update-user-roles.dto';
+import { RoleService } from './role.service';
+
+@Controller('user')
+@ApiBearerAuth()
+@ApiTags('admin role')
+export class UserRoleController {
+	constructor(private readonly roleService: RoleService) {}
+
+	@Get(':userId/roles')
+	@UseGuards(JwtAuthGuard, PermissionsGuard)
+	@RequirePermissions('role:manage')
+	async getUserRoles(@Param('userId', ParseUUIDPipe) userId: string) {
+		const roles = await this.roleService.getUserRoles(userId);
+		return plainToInstance(RoleDto, roles, { excludeExtraneousValues: true });
+	}
+
+	@Put(':userId/roles')
+	@UseGuards(JwtAuthGuard, PermissionsGuard)
+	@RequirePermissions('role:manage')
+	async setUserRoles(
+		@Param('userId', ParseUUIDPipe) userId: string,
+		@Body() dto: UpdateUserRolesDto,
+	) {
+		const roles = await this.roleService.setUserRoles(userId, dto.roleIds);
+		return plainToInstance(RoleDto, roles, { excludeExtraneousValues: true });
+	}
+}
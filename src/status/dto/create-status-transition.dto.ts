@@ -0,0 +1,20 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+import { IsBoolean, IsOptional, IsUUID } from 'class-validator';
+
+@Exclude()
+export class CreateStatusTransitionDto {
+	@Expose()
+	@IsUUID()
+	@ApiProperty({ description: 'UUID of the status tasks may move to' })
+	toStatusId: string;
+
+	@Expose()
+	@IsOptional()
+	@IsBoolean()
+	@ApiPropertyOptional({
+		description: 'Only the assignee of the task may use the transition',
+		default: false,
+	})
+	assigneeOnly?: boolean;
+}
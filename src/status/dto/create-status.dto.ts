@@ -1,6 +1,7 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { StatusCategory } from '@prisma/client';
 import { Exclude, Expose } from 'class-transformer';
-import { IsString, Length } from 'class-validator';
+import { IsEnum, IsOptional, IsString, IsUUID, Length } from 'class-validator';
 
 @Exclude()
 export class CreateStatusDto {
@@ -9,4 +10,21 @@ export class CreateStatusDto {
 	@IsString()
 	@ApiProperty({ default: 'In Progress' })
 	name: string;
+
+	@Expose()
+	@IsOptional()
+	@IsEnum(StatusCategory)
+	@ApiPropertyOptional({
+		enum: StatusCategory,
+		default: StatusCategory.TODO,
+	})
+	category?: StatusCategory;
+
+	@Expose()
+	@IsOptional()
+	@IsUUID()
+	@ApiPropertyOptional({
+		description: 'Company UUID, omit to create a default status',
+	})
+	companyId?: string;
 }
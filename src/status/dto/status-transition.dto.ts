@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+
+@Exclude()
+export class StatusTransitionDto {
+	@Expose()
+	@ApiProperty()
+	id: string;
+
+	@Expose()
+	@ApiProperty()
+	fromStatusId: string;
+
+	@Expose()
+	@ApiProperty()
+	toStatusId: string;
+
+	@Expose()
+	@ApiProperty()
+	assigneeOnly: boolean;
+
+	@Expose()
+	@ApiProperty()
+	createdAt: Date;
+}
@@ -1,4 +1,5 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { StatusCategory } from '@prisma/client';
 import { Exclude, Expose } from 'class-transformer';
 
 @Exclude()
@@ -10,4 +11,12 @@ export class StatusDto {
 	@Expose()
 	@ApiProperty()
 	name: string;
+
+	@Expose()
+	@ApiProperty({ enum: StatusCategory })
+	category: StatusCategory;
+
+	@Expose()
+	@ApiPropertyOptional({ description: 'Empty for default statuses' })
+	companyId: string | null;
 }
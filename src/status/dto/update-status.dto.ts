@@ -1,4 +1,6 @@
-import { PartialType } from '@nestjs/swagger';
+import { OmitType, PartialType } from '@nestjs/swagger';
 import { CreateStatusDto } from './create-status.dto';
 
-export class UpdateStatusDto extends PartialType(CreateStatusDto) {}
+export class UpdateStatusDto extends PartialType(
+	OmitType(CreateStatusDto, ['companyId'] as const),
+) {}
@@ -0,0 +1,87 @@
+import {
+	Body,
+	Controller,
+	Delete,
+	Get,
+	HttpCode,
+	HttpStatus,
+	Param,
+	ParseUUIDPipe,
+	Post,
+	Req,
+	UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiConsumes, ApiTags } from '@nestjs/swagger';
+import { plainToInstance } from 'class-transformer';
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator';
+import { RequireTokenScope } from 'src/auth/decorators/token-scope.decorator';
+import { EmailVerifiedGuard } from 'src/auth/guards/email-verified.guard';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { IApiRequest } from 'src/common/interfaces/app-request.interface';
+import { CreateStatusTransitionDto } from './dto/create-status-transition.dto';
+import { StatusTransitionDto } from './dto/status-transition.dto';
+import { StatusTransitionService } from './status-transition.service';
+
+@Controller('status/:statusId/transitions')
+@ApiBearerAuth()
+@ApiTags('status')
+export class StatusTransitionController {
+	constructor(
+		private readonly statusTransitionService: StatusTransitionService,
+	) {}
+
+	@Get()
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('status:read')
+	@RequireTokenScope('status:read')
+	async getTransitions(
+		@Param('statusId', ParseUUIDPipe) statusId: string,
+		@Req() { user }: IApiRequest,
+	) {
+		const transitions = await this.statusTransitionService.getTransitions(
+			statusId,
+			user,
+		);
+		return plainToInstance(StatusTransitionDto, transitions, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Post()
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('status:update')
+	@RequireTokenScope('status:write')
+	async createTransition(
+		@Param('statusId', ParseUUIDPipe) statusId: string,
+		@Req() { user }: IApiRequest,
+		@Body() dto: CreateStatusTransitionDto,
+	) {
+		const transition = await this.statusTransitionService.createTransition(
+			statusId,
+			user,
+			dto,
+		);
+		return plainToInstance(StatusTransitionDto, transition, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@Delete(':transitionId')
+	@HttpCode(HttpStatus.NO_CONTENT)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('status:update')
+	@RequireTokenScope('status:write')
+	async deleteTransition(
+		@Param('statusId', ParseUUIDPipe) statusId: string,
+		@Param('transitionId', ParseUUIDPipe) transitionId: string,
+		@Req() { user }: IApiRequest,
+	) {
+		await this.statusTransitionService.deleteTransition(
+			statusId,
+			transitionId,
+			user,
+		);
+	}
+}
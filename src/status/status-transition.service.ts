@@ -0,0 +1,155 @@
+import {
+	BadRequestException,
+	Inject,
+	Injectable,
+	NotFoundException,
+	UnprocessableEntityException,
+} from '@nestjs/common';
+import { Status, StatusTransition, Task } from '@prisma/client';
+import { JwtUserInfo } from 'src/common/types/jwt-user-info.type';
+import { hasPermission } from 'src/common/utils/permission.util';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+import { CreateStatusTransitionDto } from './dto/create-status-transition.dto';
+import { StatusService } from './status.service';
+
+type TaskWorkflowState = Pick<Task, 'statudId' | 'assigneeId'>;
+
+/**
+ * Allowed moves between statuses. A status without transitions out of it
+ * doesn't restrict where tasks go next.
+ */
+@Injectable()
+export class StatusTransitionService {
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly statusService: StatusService,
+	) {}
+
+	async getTransitions(statusId: string, user: JwtUserInfo) {
+		await this.statusService.getStatusById(statusId, user);
+
+		return this.prismaService.statusTransition.findMany({
+			where: { fromStatusId: statusId },
+			orderBy: { createdAt: 'asc' },
+		});
+	}
+
+	async createTransition(
+		statusId: string,
+		user: JwtUserInfo,
+		data: CreateStatusTransitionDto,
+	) {
+		const fromStatus = await this.prismaService.status.findUniqueOrThrow({
+			where: { id: statusId },
+		});
+		await this.statusService.assertCanManage(fromStatus.companyId, user);
+
+		if (data.toStatusId === fromStatus.id)
+			throw new BadRequestException("A status can't transition to itself");
+		const toStatus = await this.prismaService.status.findUnique({
+			where: { id: data.toStatusId },
+		});
+		if (!toStatus || toStatus.companyId !== fromStatus.companyId)
+			throw new BadRequestException(
+				'Both statuses must belong to the same company',
+			);
+
+		return this.prismaService.statusTransition.create({
+			data: {
+				fromStatusId: fromStatus.id,
+				toStatusId: toStatus.id,
+				assigneeOnly: !!data.assigneeOnly,
+			},
+		});
+	}
+
+	async deleteTransition(
+		statusId: string,
+		transitionId: string,
+		user: JwtUserInfo,
+	) {
+		const transition = await this.prismaService.statusTransition.findFirst({
+			where: { id: transitionId, fromStatusId: statusId },
+			include: { fromStatus: { select: { companyId: true } } },
+		});
+		if (!transition) throw new NotFoundException('Transition does not exist');
+		await this.statusService.assertCanManage(
+			transition.fromStatus.companyId,
+			user,
+		);
+
+		await this.prismaService.statusTransition.delete({
+			where: { id: transition.id },
+		});
+	}
+
+	/** Statuses the user may move the task to from its current status. */
+	async getAvailableStatuses(
+		task: TaskWorkflowState,
+		user: JwtUserInfo,
+	): Promise<Status[]> {
+		const transitions = await this.prismaService.statusTransition.findMany({
+			where: { fromStatusId: task.statudId },
+			include: { toStatus: true },
+			orderBy: { createdAt: 'asc' },
+		});
+		if (!transitions.length) {
+			const status = await this.prismaService.status.findUniqueOrThrow({
+				where: { id: task.statudId },
+			});
+			return this.prismaService.status.findMany({
+				where: { companyId: status.companyId, id: { not: status.id } },
+			});
+		}
+
+		return transitions
+			.filter((transition) => this.canUse(transition, task, user))
+			.map(({ toStatus }) => toStatus);
+	}
+
+	/** Rejects status changes the workflow doesn't allow with a 422. */
+	async assertTransition(
+		task: TaskWorkflowState,
+		toStatusId: string,
+		user: JwtUserInfo,
+	) {
+		if (toStatusId === task.statudId) return;
+
+		const transitions = await this.prismaService.statusTransition.findMany({
+			where: { fromStatusId: task.statudId },
+			include: { fromStatus: true, toStatus: true },
+		});
+		if (!transitions.length) return;
+
+		const transition = transitions.find(
+			(item) => item.toStatusId === toStatusId,
+		);
+		if (!transition) {
+			const toStatus = await this.prismaService.status.findUniqueOrThrow({
+				where: { id: toStatusId },
+			});
+			const allowed = transitions
+				.map((item) => `"${item.toStatus.name}"`)
+				.join(', ');
+			throw new UnprocessableEntityException(
+				`Task can't move from "${transitions[0].fromStatus.name}" to "${toStatus.name}", allowed statuses: ${allowed}`,
+			);
+		}
+		if (!this.canUse(transition, task, user))
+			throw new UnprocessableEntityException(
+				`Only the assignee can move the task to "${transition.toStatus.name}"`,
+			);
+	}
+
+	private canUse(
+		transition: StatusTransition,
+		task: TaskWorkflowState,
+		user: JwtUserInfo,
+	) {
+		return (
+			!transition.assigneeOnly ||
+			task.assigneeId === user.id ||
+			hasPermission(user, 'task:manage')
+		);
+	}
+}
@@ -7,12 +7,17 @@ import {
 	ParseUUIDPipe,
 	Patch,
 	Post,
+	Req,
 	UseGuards,
 } from '@nestjs/common';
 import { ApiBearerAuth, ApiConsumes, ApiTags } from '@nestjs/swagger';
 import { plainToInstance } from 'class-transformer';
-import { IsAdminGuard } from 'src/auth/guards/is-admin.guard';
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator';
+import { RequireTokenScope } from 'src/auth/decorators/token-scope.decorator';
+import { EmailVerifiedGuard } from 'src/auth/guards/email-verified.guard';
 import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { IApiRequest } from 'src/common/interfaces/app-request.interface';
 import { CreateStatusDto } from './dto/create-status.dto';
 import { StatusesPaginationDto } from './dto/pagination/statuses.pagination.dto';
 import { StatusesPaginationOptionsDto } from './dto/pagination/statuses.pagination.options.dto';
@@ -28,9 +33,15 @@ export class StatusController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Post('pagination')
-	@UseGuards(JwtAuthGuard)
-	async getStatuses(@Body() options: StatusesPaginationOptionsDto) {
-		const statuses = await this.statusService.getStatuses(options);
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('status:read')
+	@RequireTokenScope('status:read')
+	async getStatuses(
+		@Req() req: IApiRequest,
+		@Body() options: StatusesPaginationOptionsDto,
+	) {
+		const { user } = req;
+		const statuses = await this.statusService.getStatuses(options, user);
 		return plainToInstance(StatusesPaginationDto, statuses, {
 			excludeExtraneousValues: true,
 		});
@@ -38,9 +49,15 @@ export class StatusController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Get(':statusId')
-	@UseGuards(JwtAuthGuard)
-	async getStatus(@Param('statusId', ParseUUIDPipe) statusId: string) {
-		const status = await this.statusService.getStatusById(statusId);
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('status:read')
+	@RequireTokenScope('status:read')
+	async getStatus(
+		@Param('statusId', ParseUUIDPipe) statusId: string,
+		@Req() req: IApiRequest,
+	) {
+		const { user } = req;
+		const status = await this.statusService.getStatusById(statusId, user);
 		return plainToInstance(StatusDto, status, {
 			excludeExtraneousValues: true,
 		});
@@ -48,9 +65,15 @@ export class StatusController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Delete(':statusId')
-	@UseGuards(JwtAuthGuard, IsAdminGuard)
-	async deleteStatus(@Param('statusId', ParseUUIDPipe) statusId: string) {
-		const status = await this.statusService.deleteStatusById(statusId);
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('status:update')
+	@RequireTokenScope('status:write')
+	async deleteStatus(
+		@Param('statusId', ParseUUIDPipe) statusId: string,
+		@Req() req: IApiRequest,
+	) {
+		const { user } = req;
+		const status = await this.statusService.deleteStatusById(statusId, user);
 		return plainToInstance(StatusDto, status, {
 			excludeExtraneousValues: true,
 		});
@@ -58,12 +81,20 @@ export class StatusController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Patch(':statusId')
-	@UseGuards(JwtAuthGuard, IsAdminGuard)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('status:update')
+	@RequireTokenScope('status:write')
 	async updateStatus(
 		@Body() dto: UpdateStatusDto,
 		@Param('statusId', ParseUUIDPipe) statusId: string,
+		@Req() req: IApiRequest,
 	) {
-		const status = await this.statusService.updateStatusById(statusId, dto);
+		const { user } = req;
+		const status = await this.statusService.updateStatusById(
+			statusId,
+			user,
+			dto,
+		);
 		return plainToInstance(StatusDto, status, {
 			excludeExtraneousValues: true,
 		});
@@ -71,9 +102,12 @@ export class StatusController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Post()
-	@UseGuards(JwtAuthGuard, IsAdminGuard)
-	async createStatus(@Body() dto: CreateStatusDto) {
-		const status = await this.statusService.createStatus(dto);
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('status:update')
+	@RequireTokenScope('status:write')
+	async createStatus(@Body() dto: CreateStatusDto, @Req() req: IApiRequest) {
+		const { user } = req;
+		const status = await this.statusService.createStatus(dto, user);
 		return plainToInstance(StatusDto, status, {
 			excludeExtraneousValues: true,
 		});
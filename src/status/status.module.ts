@@ -1,10 +1,14 @@
 import { Module } from '@nestjs/common';
+import { CompanyModule } from 'src/company/company.module';
 import { StatusController } from './status.controller';
 import { StatusService } from './status.service';
+import { StatusTransitionController } from './status-transition.controller';
+import { StatusTransitionService } from './status-transition.service';
 
 @Module({
-	controllers: [StatusController],
-	providers: [StatusService],
-	exports: [StatusService],
+	imports: [CompanyModule],
+	controllers: [StatusController, StatusTransitionController],
+	providers: [StatusService, StatusTransitionService],
+	exports: [StatusService, StatusTransitionService],
 })
 export class StatusModule {}
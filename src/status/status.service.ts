@@ -1,39 +1,103 @@
-import { Injectable } from '@nestjs/common';
-import { PrismaService } from 'src/prisma/prisma.service';
+import { ForbiddenException, Inject, Injectable } from '@nestjs/common';
+import { CompanyMemberRole, Prisma } from '@prisma/client';
+import { JwtUserInfo } from 'src/common/types/jwt-user-info.type';
+import { hasPermission } from 'src/common/utils/permission.util';
+import { CompanyService } from 'src/company/company.service';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
 import { CreateStatusDto } from './dto/create-status.dto';
 import { StatusesPaginationOptionsDto } from './dto/pagination/statuses.pagination.options.dto';
 import { UpdateStatusDto } from './dto/update-status.dto';
 
+/**
+ * Statuses without a company are the defaults copied into every new company,
+ * the rest belong to one company.
+ */
 @Injectable()
 export class StatusService {
-	constructor(private readonly prismaService: PrismaService) {}
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly companyService: CompanyService,
+	) {}
 
-	async getStatusById(id: string) {
-		return this.prismaService.status.findUniqueOrThrow({ where: { id } });
+	/** Defaults and the statuses of companies the user is a member of. */
+	private readableWhere(user: JwtUserInfo): Prisma.StatusWhereInput {
+		if (hasPermission(user, 'status:manage')) return {};
+		return {
+			OR: [
+				{ companyId: null },
+				{ company: this.companyService.membershipWhere(user.id) },
+			],
+		};
+	}
+
+	/** Defaults are up to administrators, company statuses to company admins. */
+	async assertCanManage(companyId: string | null, user: JwtUserInfo) {
+		if (hasPermission(user, 'status:manage')) return;
+		if (!companyId)
+			throw new ForbiddenException("User can't manage default statuses");
+		await this.companyService.assertCompanyAccess(
+			companyId,
+			user,
+			CompanyMemberRole.ADMIN,
+			"User can't manage statuses of company",
+		);
 	}
 
-	async createStatus(data: CreateStatusDto) {
+	async getStatusById(id: string, user: JwtUserInfo) {
+		return this.prismaService.status.findFirstOrThrow({
+			where: { id, ...this.readableWhere(user) },
+		});
+	}
+
+	async createStatus(data: CreateStatusDto, user: JwtUserInfo) {
+		if (data.companyId)
+			await this.prismaService.company.findUniqueOrThrow({
+				where: { id: data.companyId },
+			});
+		await this.assertCanManage(data.companyId ?? null, user);
+
 		return this.prismaService.status.create({ data });
 	}
 
-	async updateStatusById(id: string, data: UpdateStatusDto) {
+	async updateStatusById(id: string, user: JwtUserInfo, data: UpdateStatusDto) {
+		const status = await this.prismaService.status.findUniqueOrThrow({
+			where: { id },
+		});
+		await this.assertCanManage(status.companyId, user);
+
 		return this.prismaService.status.update({
 			where: { id },
 			data,
 		});
 	}
 
-	async deleteStatusById(id: string) {
+	async deleteStatusById(id: string, user: JwtUserInfo) {
+		const status = await this.prismaService.status.findUniqueOrThrow({
+			where: { id },
+		});
+		await this.assertCanManage(status.companyId, user);
+
 		return this.prismaService.status.delete({ where: { id } });
 	}
 
-	async getStatuses(options: StatusesPaginationOptionsDto) {
+	/** Lists the statuses of one company, or the defaults without a company. */
+	async getStatuses(options: StatusesPaginationOptionsDto, user: JwtUserInfo) {
+		const companyId = options.companyId ?? null;
+		if (companyId && !hasPermission(user, 'status:manage'))
+			await this.companyService.assertCompanyAccess(
+				companyId,
+				user,
+				CompanyMemberRole.VIEWER,
+			);
+		const where: Prisma.StatusWhereInput = { companyId };
+
 		const items = await this.prismaService.status.findMany({
+			where,
 			take: options.perPage,
 			skip: options.perPage * (options.page - 1),
 		});
 
-		const count = await this.prismaService.status.count();
+		const count = await this.prismaService.status.count({ where });
 
 		return {
 			items,
@@ -0,0 +1,8 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+
+export class AddTaskBlockerDto {
+	@IsUUID()
+	@ApiProperty({ description: 'UUID of the task that has to be done first' })
+	blockerId: string;
+}
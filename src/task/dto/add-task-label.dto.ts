@@ -0,0 +1,8 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+
+export class AddTaskLabelDto {
+	@IsUUID()
+	@ApiProperty({ description: "UUID of a label of the project's company" })
+	labelId: string;
+}
@@ -1,6 +1,7 @@
-import { ApiProperty } from '@nestjs/swagger';
-import { Exclude, Expose } from 'class-transformer';
-import { IsString, IsUUID, Length } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose, Transform } from 'class-transformer';
+import { IsDate, IsOptional, IsString, IsUUID, Length } from 'class-validator';
+import { toDate } from 'src/common/utils/transform.util';
 
 @Exclude()
 export class CreateTaskDto {
@@ -16,6 +17,11 @@ export class CreateTaskDto {
 	@ApiProperty({ default: 'Details about the task' })
 	description: string;
 
+	@Expose()
+	@IsUUID()
+	@ApiProperty({ description: 'Project UUID the task belongs to' })
+	projectId: string;
+
 	@Expose()
 	@IsUUID()
 	@ApiProperty({ description: 'Status UUID' })
@@ -30,4 +36,26 @@ export class CreateTaskDto {
 	@IsUUID()
 	@ApiProperty({ description: 'Assignee user UUID' })
 	assigneeId: string;
+
+	@Expose()
+	@IsUUID()
+	@IsOptional()
+	@ApiPropertyOptional({ description: 'Parent task UUID, makes it a subtask' })
+	parentId?: string;
+
+	@Expose()
+	@IsOptional()
+	@Transform(toDate)
+	@IsDate()
+	@ApiPropertyOptional({
+		description: 'When work on the task should start',
+	})
+	startDate?: Date | null;
+
+	@Expose()
+	@IsOptional()
+	@Transform(toDate)
+	@IsDate()
+	@ApiPropertyOptional({ description: 'When the task should be done' })
+	dueDate?: Date | null;
 }
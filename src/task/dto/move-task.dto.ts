@@ -0,0 +1,11 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsUUID } from 'class-validator';
+
+export class MoveTaskDto {
+	@IsOptional()
+	@IsUUID()
+	@ApiPropertyOptional({
+		description: 'New parent task UUID, omit to make it a top-level task',
+	})
+	parentId?: string;
+}
@@ -1,3 +1,68 @@
+import { ApiPropertyOptional, IntersectionType } from '@nestjs/swagger';
+import { Prisma } from '@prisma/client';
+import { Expose, Transform } from 'class-transformer';
+import { IsIn, IsOptional, IsUUID } from 'class-validator';
+import { ArchiveOptionsDto } from 'src/common/dto/archive.options.dto';
 import { BasePaginationOptionsDto } from 'src/common/pagination/dto/base.pagination.options.dto';
+import { toArray } from 'src/common/utils/transform.util';
 
-export class TasksPaginationOptionsDto extends BasePaginationOptionsDto {}
+export const TASK_SORT_FIELDS = ['createdAt', 'priority', 'dueDate'] as const;
+export type TaskSortField = (typeof TASK_SORT_FIELDS)[number];
+
+export const LABEL_MATCH_MODES = ['any', 'all'] as const;
+export type LabelMatchMode = (typeof LABEL_MATCH_MODES)[number];
+
+export const DUE_FILTERS = ['overdue', 'thisWeek', 'none'] as const;
+export type DueFilter = (typeof DUE_FILTERS)[number];
+
+export class TasksPaginationOptionsDto extends IntersectionType(
+	BasePaginationOptionsDto,
+	ArchiveOptionsDto,
+) {
+	@Expose()
+	@IsOptional()
+	@IsIn(TASK_SORT_FIELDS)
+	@ApiPropertyOptional({
+		enum: TASK_SORT_FIELDS,
+		description:
+			'Priority sorts by priority weight, due date puts tasks without one last',
+		default: 'createdAt',
+	})
+	sortBy?: TaskSortField;
+
+	@Expose()
+	@IsOptional()
+	@IsIn(['asc', 'desc'])
+	@ApiPropertyOptional({ enum: ['asc', 'desc'], default: 'desc' })
+	sortOrder?: Prisma.SortOrder;
+
+	@Expose()
+	@IsOptional()
+	@Transform(toArray)
+	@IsUUID('all', { each: true })
+	@ApiPropertyOptional({
+		type: [String],
+		description: 'Only tasks with these label UUIDs',
+	})
+	labelIds?: string[];
+
+	@Expose()
+	@IsOptional()
+	@IsIn(LABEL_MATCH_MODES)
+	@ApiPropertyOptional({
+		enum: LABEL_MATCH_MODES,
+		description: 'Whether tasks need any or all of the labels',
+		default: 'any',
+	})
+	labelMatch?: LabelMatchMode;
+
+	@Expose()
+	@IsOptional()
+	@IsIn(DUE_FILTERS)
+	@ApiPropertyOptional({
+		enum: DUE_FILTERS,
+		description:
+			'Overdue and unfinished, due this week from Monday on, or without a due date',
+	})
+	due?: DueFilter;
+}
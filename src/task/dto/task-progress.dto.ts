@@ -0,0 +1,23 @@
+import { Exclude, Expose, Type } from 'class-transformer';
+
+@Exclude()
+export class TaskProgressByCategoryDto {
+	@Expose()
+	TODO: number;
+	@Expose()
+	IN_PROGRESS: number;
+	@Expose()
+	DONE: number;
+}
+
+/** The task's direct subtasks, counted by status category. */
+@Exclude()
+export class TaskProgressDto {
+	@Expose()
+	total: number;
+	@Expose()
+	completed: number;
+	@Expose()
+	@Type(() => TaskProgressByCategoryDto)
+	byCategory: TaskProgressByCategoryDto;
+}
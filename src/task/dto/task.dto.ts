@@ -1,4 +1,6 @@
-import { Exclude, Expose } from 'class-transformer';
+import { Exclude, Expose, Type } from 'class-transformer';
+import { LabelDto } from 'src/label/dto/label.dto';
+import { TaskProgressDto } from './task-progress.dto';
 
 @Exclude()
 export class TaskDto {
@@ -17,6 +19,28 @@ export class TaskDto {
 	@Expose()
 	priorityId: string;
 	@Expose()
+	projectId: string;
+	@Expose()
+	parentId: string;
+	@Expose()
+	@Type(() => TaskProgressDto)
+	progress: TaskProgressDto;
+	@Expose()
+	blockedBy: string[];
+	@Expose()
+	blocks: string[];
+	@Expose()
+	@Type(() => LabelDto)
+	labels: LabelDto[];
+	@Expose()
+	startDate: Date;
+	@Expose()
+	dueDate: Date;
+	@Expose()
+	completedAt: Date;
+	@Expose()
+	overdueAt: Date;
+	@Expose()
 	deletedAt: Date;
 	@Expose()
 	updatedAt: Date;
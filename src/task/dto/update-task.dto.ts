@@ -1,6 +1,7 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { Exclude, Expose } from 'class-transformer';
-import { IsOptional, IsString, IsUUID, Length } from 'class-validator';
+import { Exclude, Expose, Transform } from 'class-transformer';
+import { IsDate, IsOptional, IsString, IsUUID, Length } from 'class-validator';
+import { toDate } from 'src/common/utils/transform.util';
 
 @Exclude()
 export class UpdateTaskDto {
@@ -18,6 +19,12 @@ export class UpdateTaskDto {
 	@ApiPropertyOptional({ default: 'Updated description' })
 	description?: string;
 
+	@Expose()
+	@IsUUID()
+	@IsOptional()
+	@ApiPropertyOptional({ description: 'Move task to another project' })
+	projectId?: string;
+
 	@Expose()
 	@IsUUID()
 	@IsOptional()
@@ -36,6 +43,24 @@ export class UpdateTaskDto {
 	@ApiPropertyOptional({ description: 'Reassign task' })
 	assigneeId?: string;
 
+	@Expose()
+	@IsOptional()
+	@Transform(toDate)
+	@IsDate()
+	@ApiPropertyOptional({
+		description: 'When work on the task should start, empty to clear',
+	})
+	startDate?: Date | null;
+
+	@Expose()
+	@IsOptional()
+	@Transform(toDate)
+	@IsDate()
+	@ApiPropertyOptional({
+		description: 'When the task should be done, empty to clear',
+	})
+	dueDate?: Date | null;
+
 	@Expose()
 	@IsOptional()
 	@ApiPropertyOptional({
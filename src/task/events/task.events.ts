@@ -0,0 +1,8 @@
+export const TASK_OVERDUE_EVENT = 'task.overdue';
+
+export class TaskOverdueEvent {
+	constructor(
+		readonly taskId: string,
+		readonly dueDate: Date,
+	) {}
+}
@@ -0,0 +1,49 @@
+import {
+	Controller,
+	Get,
+	Param,
+	ParseUUIDPipe,
+	Query,
+	Req,
+	UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { plainToInstance } from 'class-transformer';
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator';
+import { RequireTokenScope } from 'src/auth/decorators/token-scope.decorator';
+import { EmailVerifiedGuard } from 'src/auth/guards/email-verified.guard';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { IApiRequest } from 'src/common/interfaces/app-request.interface';
+import { ProjectService } from 'src/project/project.service';
+import { TasksPaginationDto } from './dto/pagination/tasks.pagination.dto';
+import { TasksPaginationOptionsDto } from './dto/pagination/tasks.pagination.options.dto';
+import { TaskService } from './task.service';
+
+@Controller('project/:projectId/tasks')
+@ApiBearerAuth()
+@ApiTags('task')
+export class ProjectTaskController {
+	constructor(
+		private readonly taskService: TaskService,
+		private readonly projectService: ProjectService,
+	) {}
+
+	@Get()
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('task:read')
+	@RequireTokenScope('task:read')
+	async getProjectTasks(
+		@Param('projectId', ParseUUIDPipe) projectId: string,
+		@Req() { user }: IApiRequest,
+		@Query() options: TasksPaginationOptionsDto,
+	) {
+		await this.projectService.getProjectById(projectId, user);
+		const tasks = await this.taskService.getTasks(options, user, {
+			projectId,
+		});
+		return plainToInstance(TasksPaginationDto, tasks, {
+			excludeExtraneousValues: true,
+		});
+	}
+}
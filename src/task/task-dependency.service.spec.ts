@@ -0,0 +1,112 @@
+import { BadRequestException } from '@nestjs/common';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { TaskDependencyService } from './task-dependency.service';
+
+type Dependency = { id: string; blockerId: string; blockedId: string };
+
+describe('TaskDependencyService', () => {
+	let dependencies: Dependency[];
+	let prisma: {
+		taskDependency: {
+			findUnique: jest.Mock;
+			findMany: jest.Mock;
+			create: jest.Mock;
+		};
+	};
+	let service: TaskDependencyService;
+
+	beforeEach(() => {
+		dependencies = [];
+		prisma = {
+			taskDependency: {
+				findUnique: jest.fn(async ({ where }) => {
+					const { blockerId, blockedId } = where.blockerId_blockedId;
+					return (
+						dependencies.find(
+							(item) =>
+								item.blockerId === blockerId && item.blockedId === blockedId,
+						) ?? null
+					);
+				}),
+				findMany: jest.fn(async ({ where }) =>
+					dependencies.filter(({ blockedId }) =>
+						where.blockedId.in.includes(blockedId),
+					),
+				),
+				create: jest.fn(async ({ data }) => {
+					const dependency = { id: `dep-${dependencies.length}`, ...data };
+					dependencies.push(dependency);
+					return dependency;
+				}),
+			},
+		};
+		service = new TaskDependencyService(prisma as unknown as PrismaService);
+	});
+
+	/** `a` blocks `b`, `b` blocks `c` and so on. */
+	async function chain(...taskIds: string[]) {
+		for (let i = 1; i < taskIds.length; i++)
+			await service.addBlocker(taskIds[i], taskIds[i - 1]);
+	}
+
+	it('adds a blocker', async () => {
+		await service.addBlocker('b', 'a');
+
+		expect(dependencies).toEqual([
+			expect.objectContaining({ blockerId: 'a', blockedId: 'b' }),
+		]);
+	});
+
+	it("doesn't let a task block itself", async () => {
+		await expect(service.addBlocker('a', 'a')).rejects.toThrow(
+			"A task can't block itself",
+		);
+	});
+
+	it('rejects adding the same blocker twice', async () => {
+		await service.addBlocker('b', 'a');
+
+		await expect(service.addBlocker('b', 'a')).rejects.toThrow(
+			'Task is already a blocker',
+		);
+	});
+
+	it('rejects a direct cycle', async () => {
+		await service.addBlocker('b', 'a');
+
+		await expect(service.addBlocker('a', 'b')).rejects.toThrow(
+			BadRequestException,
+		);
+	});
+
+	it('rejects a cycle through a chain of blockers', async () => {
+		await chain('a', 'b', 'c', 'd');
+
+		await expect(service.addBlocker('a', 'd')).rejects.toThrow(
+			'Task already waits on this task, directly or through others',
+		);
+		expect(dependencies).toHaveLength(3);
+	});
+
+	it('allows diamonds, which are not cycles', async () => {
+		await chain('a', 'b', 'd');
+		await chain('a', 'c', 'd');
+
+		await expect(service.addBlocker('e', 'd')).resolves.toBeDefined();
+		await expect(service.addBlocker('d', 'e')).rejects.toThrow(
+			BadRequestException,
+		);
+	});
+
+	it('looks up each task only once, even with existing cycles', async () => {
+		dependencies.push(
+			{ id: 'x', blockerId: 'b', blockedId: 'a' },
+			{ id: 'y', blockerId: 'a', blockedId: 'b' },
+		);
+
+		await service.addBlocker('c', 'a');
+
+		// Blockers of a, then of b, whose blocker a was already seen
+		expect(prisma.taskDependency.findMany).toHaveBeenCalledTimes(2);
+	});
+});
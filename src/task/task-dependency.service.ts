@@ -0,0 +1,88 @@
+import {
+	BadRequestException,
+	Inject,
+	Injectable,
+	NotFoundException,
+	UnprocessableEntityException,
+} from '@nestjs/common';
+import { StatusCategory } from '@prisma/client';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+
+/** Tasks that have to be done before others can be. */
+@Injectable()
+export class TaskDependencyService {
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+	) {}
+
+	/** Makes `blockerId` block `blockedId`, unless that closes a cycle. */
+	async addBlocker(blockedId: string, blockerId: string) {
+		if (blockerId === blockedId)
+			throw new BadRequestException("A task can't block itself");
+		const existing = await this.prismaService.taskDependency.findUnique({
+			where: { blockerId_blockedId: { blockerId, blockedId } },
+		});
+		if (existing) throw new BadRequestException('Task is already a blocker');
+		if (await this.isBlockedBy(blockerId, blockedId))
+			throw new BadRequestException(
+				'Task already waits on this task, directly or through others',
+			);
+
+		return this.prismaService.taskDependency.create({
+			data: { blockerId, blockedId },
+		});
+	}
+
+	async removeBlocker(blockedId: string, blockerId: string) {
+		const dependency = await this.prismaService.taskDependency.findUnique({
+			where: { blockerId_blockedId: { blockerId, blockedId } },
+		});
+		if (!dependency) throw new NotFoundException('Dependency does not exist');
+
+		await this.prismaService.taskDependency.delete({
+			where: { id: dependency.id },
+		});
+	}
+
+	/** Rejects completing the task with a 422 while a blocker isn't done. */
+	async assertUnblocked(taskId: string) {
+		const dependencies = await this.prismaService.taskDependency.findMany({
+			where: {
+				blockedId: taskId,
+				blocker: {
+					deletedAt: null,
+					status: { category: { not: StatusCategory.DONE } },
+				},
+			},
+			include: { blocker: { select: { name: true } } },
+		});
+		if (!dependencies.length) return;
+
+		const blockers = dependencies
+			.map(({ blocker }) => `"${blocker.name}"`)
+			.join(', ');
+		throw new UnprocessableEntityException(
+			`Task can't be completed before ${blockers}`,
+		);
+	}
+
+	/** Whether `taskId` waits on `blockerId` through any chain of blockers. */
+	private async isBlockedBy(taskId: string, blockerId: string) {
+		const seen = new Set([taskId]);
+		let level = [taskId];
+		while (level.length) {
+			const dependencies = await this.prismaService.taskDependency.findMany({
+				where: { blockedId: { in: level } },
+				select: { blockerId: true },
+			});
+			level = [];
+			for (const dependency of dependencies) {
+				if (dependency.blockerId === blockerId) return true;
+				if (seen.has(dependency.blockerId)) continue;
+				seen.add(dependency.blockerId);
+				level.push(dependency.blockerId);
+			}
+		}
+		return false;
+	}
+}
@@ -0,0 +1,94 @@
+import { BadRequestException } from '@nestjs/common';
+import { StatusCategory } from '@prisma/client';
+import { ConfigService } from 'src/config/config.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { TaskHierarchyService } from './task-hierarchy.service';
+
+describe('TaskHierarchyService', () => {
+	/** Parent of each task, `null` for top-level tasks. */
+	let parents: Record<string, string | null>;
+	let service: TaskHierarchyService;
+
+	beforeEach(() => {
+		parents = {};
+		const tasks = {
+			findUnique: jest.fn(async ({ where }) =>
+				where.id in parents ? { parentId: parents[where.id] } : null,
+			),
+			findMany: jest.fn(async ({ where }) =>
+				Object.keys(parents)
+					.filter((id) => where.parentId.in.includes(parents[id]))
+					.map((id) => ({
+						id,
+						parentId: parents[id],
+						status: { category: StatusCategory.TODO },
+					})),
+			),
+		};
+		service = new TaskHierarchyService(
+			{
+				task: tasks,
+				withArchived: { task: tasks },
+			} as unknown as PrismaService,
+			{ taskMaxDepth: 3 } as ConfigService,
+		);
+	});
+
+	/** `a` is the parent of `b`, `b` of `c` and so on. */
+	function nest(...taskIds: string[]) {
+		taskIds.forEach((id, i) => {
+			parents[id] = i ? taskIds[i - 1] : null;
+		});
+	}
+
+	it('lets new tasks go down to the deepest allowed level', async () => {
+		nest('a', 'b');
+
+		await expect(service.assertCanNest('b')).resolves.toBeUndefined();
+	});
+
+	it('rejects new tasks below the deepest allowed level', async () => {
+		nest('a', 'b', 'c');
+
+		await expect(service.assertCanNest('c')).rejects.toThrow(
+			"Tasks can't be nested more than 3 levels deep",
+		);
+	});
+
+	it('counts the subtasks of a moved task towards the depth', async () => {
+		nest('a', 'b');
+		nest('x', 'y');
+
+		await expect(service.assertCanNest('a', 'x')).resolves.toBeUndefined();
+		await expect(service.assertCanNest('b', 'x')).rejects.toThrow(
+			"Tasks can't be nested more than 3 levels deep",
+		);
+	});
+
+	it("doesn't move a task under itself or its subtasks", async () => {
+		nest('a', 'b', 'c');
+
+		for (const parentId of ['a', 'b', 'c'])
+			await expect(service.assertCanNest(parentId, 'a')).rejects.toThrow(
+				"A task can't be moved under itself or one of its subtasks",
+			);
+	});
+
+	it('stops walking up at a cycle already in the data', async () => {
+		parents = { a: 'b', b: 'a', c: null };
+
+		await expect(service.assertCanNest('a', 'c')).rejects.toThrow(
+			BadRequestException,
+		);
+	});
+
+	it('counts subtasks per status category', async () => {
+		nest('a', 'b');
+		parents.c = 'a';
+
+		const progress = await service.getProgress(['a', 'b']);
+
+		expect(progress.get('a')).toMatchObject({ total: 2, completed: 0 });
+		expect(progress.get('b')).toMatchObject({ total: 0 });
+	});
+});
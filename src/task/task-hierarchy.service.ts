@@ -0,0 +1,97 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { StatusCategory } from '@prisma/client';
+import { ConfigService } from 'src/config/config.service';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+import { TaskProgress } from './types/task-progress.type';
+
+/** Parent-child relations between tasks. */
+@Injectable()
+export class TaskHierarchyService {
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly configService: ConfigService,
+	) {}
+
+	/** Subtask counts per status category for each of the given tasks. */
+	async getProgress(taskIds: string[]) {
+		const subtasks = await this.prismaService.task.findMany({
+			where: { parentId: { in: taskIds } },
+			select: { parentId: true, status: { select: { category: true } } },
+		});
+
+		const progress = new Map<string, TaskProgress>(
+			taskIds.map((id) => [
+				id,
+				{
+					total: 0,
+					completed: 0,
+					byCategory: {
+						[StatusCategory.TODO]: 0,
+						[StatusCategory.IN_PROGRESS]: 0,
+						[StatusCategory.DONE]: 0,
+					},
+				},
+			]),
+		);
+		for (const { parentId, status } of subtasks) {
+			const item = progress.get(parentId);
+			item.total++;
+			item.byCategory[status.category]++;
+			if (status.category === StatusCategory.DONE) item.completed++;
+		}
+		return progress;
+	}
+
+	/**
+	 * Checks that the task, with its subtasks, may go under the parent: no
+	 * cycles and no deeper nesting than allowed. Leave out `taskId` for new
+	 * tasks.
+	 */
+	async assertCanNest(parentId: string, taskId?: string) {
+		const ancestorIds = [parentId, ...(await this.getAncestorIds(parentId))];
+		if (taskId && ancestorIds.includes(taskId))
+			throw new BadRequestException(
+				"A task can't be moved under itself or one of its subtasks",
+			);
+
+		const height = taskId ? await this.getHeight(taskId) : 1;
+		const maxDepth = this.configService.taskMaxDepth;
+		if (ancestorIds.length + height > maxDepth)
+			throw new BadRequestException(
+				`Tasks can't be nested more than ${maxDepth} levels deep`,
+			);
+	}
+
+	/** Parent, grandparent and so on up to the top-level task. */
+	private async getAncestorIds(taskId: string) {
+		const ancestorIds: string[] = [];
+		let task = await this.findParent(taskId);
+		while (task?.parentId && !ancestorIds.includes(task.parentId)) {
+			ancestorIds.push(task.parentId);
+			task = await this.findParent(task.parentId);
+		}
+		return ancestorIds;
+	}
+
+	/** Levels from the task down to its deepest subtask, the task included. */
+	private async getHeight(taskId: string) {
+		let height = 0;
+		let level = [taskId];
+		while (level.length && height <= this.configService.taskMaxDepth) {
+			height++;
+			const subtasks = await this.prismaService.withArchived.task.findMany({
+				where: { parentId: { in: level } },
+				select: { id: true },
+			});
+			level = subtasks.map(({ id }) => id);
+		}
+		return height;
+	}
+
+	private findParent(taskId: string) {
+		return this.prismaService.withArchived.task.findUnique({
+			where: { id: taskId },
+			select: { parentId: true },
+		});
+	}
+}
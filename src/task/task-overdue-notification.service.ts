@@ -0,0 +1,38 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { MailerService } from 'src/mailer/mailer.service';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+import { TASK_OVERDUE_EVENT, TaskOverdueEvent } from './events/task.events';
+
+@Injectable()
+export class TaskOverdueNotificationService {
+	private logger = new Logger(TaskOverdueNotificationService.name);
+
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly mailerService: MailerService,
+	) {}
+
+	/** Emails the assignee, or the reporter of unassigned tasks. */
+	@OnEvent(TASK_OVERDUE_EVENT, { async: true })
+	async handleOverdue({ taskId, dueDate }: TaskOverdueEvent) {
+		const task = await this.prismaService.task.findUniqueOrThrow({
+			where: { id: taskId },
+			include: {
+				assignee: { select: { email: true } },
+				reporter: { select: { email: true } },
+			},
+		});
+		const email = task.assignee?.email ?? task.reporter.email;
+
+		await this.mailerService
+			.send({
+				to: email,
+				subject: `${task.name} is overdue`,
+				text: `${task.name} was due on ${dueDate.toISOString().slice(0, 10)} and isn't done yet.`,
+			})
+			.catch((error) =>
+				this.logger.warn(`Overdue email to ${email} failed: ${error.message}`),
+			);
+	}
+}
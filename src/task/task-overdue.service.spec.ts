@@ -0,0 +1,57 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { TASK_OVERDUE_EVENT, TaskOverdueEvent } from './events/task.events';
+import { TaskOverdueService } from './task-overdue.service';
+
+describe('TaskOverdueService', () => {
+	const dueDate = new Date('2026-01-01');
+	let prisma: { task: { findMany: jest.Mock; updateMany: jest.Mock } };
+	let eventEmitter: { emit: jest.Mock };
+	let service: TaskOverdueService;
+
+	beforeEach(() => {
+		prisma = {
+			task: {
+				findMany: jest.fn().mockResolvedValue([
+					{ id: 'a', dueDate },
+					{ id: 'b', dueDate },
+				]),
+				updateMany: jest.fn().mockResolvedValue({ count: 2 }),
+			},
+		};
+		eventEmitter = { emit: jest.fn() };
+		service = new TaskOverdueService(
+			prisma as unknown as PrismaService,
+			eventEmitter as unknown as EventEmitter2,
+		);
+	});
+
+	it('marks the tasks it found, if they are still past due', async () => {
+		await expect(service.markOverdue()).resolves.toBe(2);
+
+		const [{ where }] = prisma.task.updateMany.mock.calls[0];
+		expect(where).toMatchObject({
+			id: { in: ['a', 'b'] },
+			completedAt: null,
+			overdueAt: null,
+			deletedAt: null,
+		});
+	});
+
+	it('announces each task', async () => {
+		await service.markOverdue();
+
+		expect(eventEmitter.emit.mock.calls).toEqual([
+			[TASK_OVERDUE_EVENT, new TaskOverdueEvent('a', dueDate)],
+			[TASK_OVERDUE_EVENT, new TaskOverdueEvent('b', dueDate)],
+		]);
+	});
+
+	it('does nothing when no task is past due', async () => {
+		prisma.task.findMany.mockResolvedValue([]);
+
+		await expect(service.markOverdue()).resolves.toBe(0);
+		expect(prisma.task.updateMany).not.toHaveBeenCalled();
+		expect(eventEmitter.emit).not.toHaveBeenCalled();
+	});
+});
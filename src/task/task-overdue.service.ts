@@ -0,0 +1,55 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+import { TASK_OVERDUE_EVENT, TaskOverdueEvent } from './events/task.events';
+
+/**
+ * Marks unfinished tasks past their due date as overdue, once per due date,
+ * and announces each of them with a `task.overdue` event, on which
+ * `TaskOverdueNotificationService` emails the assignee.
+ */
+@Injectable()
+export class TaskOverdueService {
+	private logger = new Logger(TaskOverdueService.name);
+
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly eventEmitter: EventEmitter2,
+	) {}
+
+	@Cron(CronExpression.EVERY_HOUR, { name: 'task-overdue' })
+	async markOverdueOnSchedule() {
+		const count = await this.markOverdue();
+		if (count) this.logger.log(`Marked ${count} tasks as overdue`);
+	}
+
+	async markOverdue() {
+		const now = new Date();
+		const pastDue = {
+			dueDate: { lt: now },
+			completedAt: null,
+			overdueAt: null,
+			deletedAt: null,
+		};
+		const tasks = await this.prismaService.task.findMany({
+			where: pastDue,
+			select: { id: true, dueDate: true },
+		});
+		if (!tasks.length) return 0;
+
+		// Conditions are checked again, so tasks completed in the meantime or
+		// marked by another run are left alone
+		const { count } = await this.prismaService.task.updateMany({
+			where: { id: { in: tasks.map(({ id }) => id) }, ...pastDue },
+			data: { overdueAt: now },
+		});
+		// Fire and forget, so one failing notification doesn't hold up the rest
+		for (const task of tasks)
+			this.eventEmitter.emit(
+				TASK_OVERDUE_EVENT,
+				new TaskOverdueEvent(task.id, task.dueDate),
+			);
+		return count;
+	}
+}
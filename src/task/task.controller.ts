@@ -3,18 +3,31 @@ import {
 	Controller,
 	Delete,
 	Get,
+	HttpCode,
+	HttpStatus,
 	Param,
 	ParseUUIDPipe,
 	Patch,
 	Post,
+	Put,
+	Query,
 	Req,
 	UseGuards,
 } from '@nestjs/common';
 import { ApiBearerAuth, ApiConsumes, ApiTags } from '@nestjs/swagger';
 import { plainToInstance } from 'class-transformer';
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator';
+import { RequireTokenScope } from 'src/auth/decorators/token-scope.decorator';
+import { EmailVerifiedGuard } from 'src/auth/guards/email-verified.guard';
 import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { ArchiveOptionsDto } from 'src/common/dto/archive.options.dto';
 import { IApiRequest } from 'src/common/interfaces/app-request.interface';
+import { StatusDto } from 'src/status/dto/status.dto';
+import { AddTaskBlockerDto } from './dto/add-task-blocker.dto';
+import { AddTaskLabelDto } from './dto/add-task-label.dto';
 import { CreateTaskDto } from './dto/create-task.dto';
+import { MoveTaskDto } from './dto/move-task.dto';
 import { TasksPaginationDto } from './dto/pagination/tasks.pagination.dto';
 import { TasksPaginationOptionsDto } from './dto/pagination/tasks.pagination.options.dto';
 import { TaskDto } from './dto/task.dto';
@@ -29,7 +42,9 @@ export class TaskController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Post('pagination')
-	@UseGuards(JwtAuthGuard)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('task:read')
+	@RequireTokenScope('task:read')
 	async getTasks(
 		@Req() req: IApiRequest,
 		@Body() options: TasksPaginationOptionsDto,
@@ -43,21 +58,133 @@ export class TaskController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Get(':taskId')
-	@UseGuards(JwtAuthGuard)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('task:read')
+	@RequireTokenScope('task:read')
 	async getTask(
 		@Param('taskId', ParseUUIDPipe) taskId: string,
 		@Req() req: IApiRequest,
+		@Query() options: ArchiveOptionsDto,
 	) {
 		const { user } = req;
-		const task = await this.taskService.getTaskById(taskId, user);
+		const task = await this.taskService.getTaskById(taskId, user, options);
 		return plainToInstance(TaskDto, task, {
 			excludeExtraneousValues: true,
 		});
 	}
 
+	@Get(':taskId/transitions')
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('task:read', 'status:read')
+	@RequireTokenScope('task:read')
+	async getTaskTransitions(
+		@Param('taskId', ParseUUIDPipe) taskId: string,
+		@Req() { user }: IApiRequest,
+	) {
+		const statuses = await this.taskService.getAvailableStatuses(taskId, user);
+		return plainToInstance(StatusDto, statuses, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@Get(':taskId/subtasks')
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('task:read')
+	@RequireTokenScope('task:read')
+	async getSubtasks(
+		@Param('taskId', ParseUUIDPipe) taskId: string,
+		@Req() { user }: IApiRequest,
+		@Query() options: TasksPaginationOptionsDto,
+	) {
+		const tasks = await this.taskService.getSubtasks(taskId, user, options);
+		return plainToInstance(TasksPaginationDto, tasks, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Put(':taskId/parent')
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('task:update')
+	@RequireTokenScope('task:write')
+	async moveTask(
+		@Param('taskId', ParseUUIDPipe) taskId: string,
+		@Req() { user }: IApiRequest,
+		@Body() dto: MoveTaskDto,
+	) {
+		const task = await this.taskService.moveTask(
+			taskId,
+			user,
+			dto.parentId ?? null,
+		);
+		return plainToInstance(TaskDto, task, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Post(':taskId/blockers')
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('task:update')
+	@RequireTokenScope('task:write')
+	async addBlocker(
+		@Param('taskId', ParseUUIDPipe) taskId: string,
+		@Req() { user }: IApiRequest,
+		@Body() dto: AddTaskBlockerDto,
+	) {
+		const task = await this.taskService.addBlocker(taskId, user, dto.blockerId);
+		return plainToInstance(TaskDto, task, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@Delete(':taskId/blockers/:blockerId')
+	@HttpCode(HttpStatus.NO_CONTENT)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('task:update')
+	@RequireTokenScope('task:write')
+	async removeBlocker(
+		@Param('taskId', ParseUUIDPipe) taskId: string,
+		@Param('blockerId', ParseUUIDPipe) blockerId: string,
+		@Req() { user }: IApiRequest,
+	) {
+		await this.taskService.removeBlocker(taskId, user, blockerId);
+	}
+
+	@ApiConsumes('application/x-www-form-urlencoded')
+	@Post(':taskId/labels')
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('task:update')
+	@RequireTokenScope('task:write')
+	async addLabel(
+		@Param('taskId', ParseUUIDPipe) taskId: string,
+		@Req() { user }: IApiRequest,
+		@Body() dto: AddTaskLabelDto,
+	) {
+		const task = await this.taskService.addLabel(taskId, user, dto.labelId);
+		return plainToInstance(TaskDto, task, {
+			excludeExtraneousValues: true,
+		});
+	}
+
+	@Delete(':taskId/labels/:labelId')
+	@HttpCode(HttpStatus.NO_CONTENT)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('task:update')
+	@RequireTokenScope('task:write')
+	async removeLabel(
+		@Param('taskId', ParseUUIDPipe) taskId: string,
+		@Param('labelId', ParseUUIDPipe) labelId: string,
+		@Req() { user }: IApiRequest,
+	) {
+		await this.taskService.removeLabel(taskId, user, labelId);
+	}
+
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Delete(':taskId')
-	@UseGuards(JwtAuthGuard)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('task:delete')
+	@RequireTokenScope('task:write')
 	async deleteTask(
 		@Param('taskId', ParseUUIDPipe) taskId: string,
 		@Req() req: IApiRequest,
@@ -73,7 +200,9 @@ export class TaskController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Patch(':taskId')
-	@UseGuards(JwtAuthGuard)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('task:update')
+	@RequireTokenScope('task:write')
 	async updateTask(
 		@Req() req: IApiRequest,
 		@Body() dto: UpdateTaskDto,
@@ -88,7 +217,9 @@ export class TaskController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Post()
-	@UseGuards(JwtAuthGuard)
+	@UseGuards(JwtAuthGuard, EmailVerifiedGuard, PermissionsGuard)
+	@RequirePermissions('task:create')
+	@RequireTokenScope('task:write')
 	async createTask(@Req() { user }: IApiRequest, @Body() dto: CreateTaskDto) {
 		const task = await this.taskService.createTask(
 			{ ...dto, reporterId: user.id },
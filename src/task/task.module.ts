@@ -1,9 +1,26 @@
 import { Module } from '@nestjs/common';
+import { ArchiveModule } from 'src/archive/archive.module';
+import { CompanyModule } from 'src/company/company.module';
+import { ProjectModule } from 'src/project/project.module';
+import { StatusModule } from 'src/status/status.module';
+import { ProjectTaskController } from './project-task.controller';
 import { TaskController } from './task.controller';
 import { TaskService } from './task.service';
+import { TaskDependencyService } from './task-dependency.service';
+import { TaskHierarchyService } from './task-hierarchy.service';
+import { TaskOverdueService } from './task-overdue.service';
+import { TaskOverdueNotificationService } from './task-overdue-notification.service';
 
 @Module({
-	providers: [TaskService],
-	controllers: [TaskController],
+	imports: [ArchiveModule, CompanyModule, ProjectModule, StatusModule],
+	providers: [
+		TaskService,
+		TaskHierarchyService,
+		TaskDependencyService,
+		TaskOverdueService,
+		TaskOverdueNotificationService,
+	],
+	controllers: [TaskController, ProjectTaskController],
+	exports: [TaskService],
 })
 export class TaskModule {}
@@ -1,32 +1,115 @@
-import { ForbiddenException, Injectable } from '@nestjs/common';
-import { Prisma, Task } from '@prisma/client';
+import {
+	BadRequestException,
+	ForbiddenException,
+	Inject,
+	Injectable,
+	NotFoundException,
+} from '@nestjs/common';
+import {
+	CompanyMemberRole,
+	Prisma,
+	StatusCategory,
+	Task,
+} from '@prisma/client';
+import { ArchiveService } from 'src/archive/archive.service';
+import { ArchiveOptionsDto } from 'src/common/dto/archive.options.dto';
 import { JwtUserInfo } from 'src/common/types/jwt-user-info.type';
-import { PrismaService } from 'src/prisma/prisma.service';
+import { archiveWhere } from 'src/common/utils/archive.util';
+import { hasPermission } from 'src/common/utils/permission.util';
+import { CompanyService } from 'src/company/company.service';
+import { PRISMA_CLIENT, PrismaService } from 'src/prisma/prisma.service';
+import { StatusTransitionService } from 'src/status/status-transition.service';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { TasksPaginationOptionsDto } from './dto/pagination/tasks.pagination.options.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
+import { TaskDependencyService } from './task-dependency.service';
+import { TaskHierarchyService } from './task-hierarchy.service';
+
+const taskInclude = {
+	blockedBy: {
+		where: { blocker: { deletedAt: null } },
+		select: { blockerId: true },
+	},
+	blocks: {
+		where: { blocked: { deletedAt: null } },
+		select: { blockedId: true },
+	},
+	labels: { select: { label: true }, orderBy: { label: { name: 'asc' } } },
+} satisfies Prisma.TaskInclude;
 
 @Injectable()
 export class TaskService {
-	constructor(private readonly prismaService: PrismaService) {}
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly companyService: CompanyService,
+		private readonly statusTransitionService: StatusTransitionService,
+		private readonly taskHierarchyService: TaskHierarchyService,
+		private readonly taskDependencyService: TaskDependencyService,
+		private readonly archiveService: ArchiveService,
+	) {}
 
-	async getTaskById(id: string, user: JwtUserInfo) {
-		if (user.isAdmin)
-			return this.prismaService.task.findUniqueOrThrow({ where: { id } });
+	/**
+	 * Tasks the user reports or is assigned to, plus the tasks of projects in
+	 * companies where the user has at least the given role.
+	 */
+	private accessWhere(
+		user: JwtUserInfo,
+		minRole: CompanyMemberRole = CompanyMemberRole.VIEWER,
+	): Prisma.TaskWhereInput {
+		if (hasPermission(user, 'task:manage')) return {};
+		return {
+			OR: [
+				{ reporterId: user.id },
+				{ assigneeId: user.id },
+				{
+					project: {
+						company: this.companyService.membershipWhere(user.id, minRole),
+					},
+				},
+			],
+		};
+	}
 
-		return this.prismaService.task.findFirstOrThrow({
-			where: { id, OR: [{ reporterId: user.id }, { assigneeId: user.id }] },
+	async getTaskById(
+		id: string,
+		user: JwtUserInfo,
+		options: ArchiveOptionsDto = {},
+	) {
+		const task = await this.prismaService.withArchived.task.findFirstOrThrow({
+			where: {
+				id,
+				...this.accessWhere(user),
+				...archiveWhere(
+					options,
+					this.accessWhere(user, CompanyMemberRole.ADMIN),
+				),
+			},
+			include: taskInclude,
 		});
+		const [details] = await this.withDetails([task]);
+		return details;
 	}
 
 	async createTask(
 		data: CreateTaskDto & { reporterId: string },
 		user: JwtUserInfo,
 	) {
-		if (!user.isAdmin && data.reporterId !== user.id)
+		if (!hasPermission(user, 'task:manage') && data.reporterId !== user.id)
 			throw new ForbiddenException(
 				"User can't create task for another reporter",
 			);
+		const project = await this.getWritableProject(data.projectId, user);
+		if (data.assigneeId && project.companyId)
+			await this.assertAssignable(project.companyId, data.assigneeId);
+		await this.assertWorkflowOf(project.companyId, data);
+		this.assertDateRange(data.startDate, data.dueDate);
+		if (data.parentId) await this.assertValidParent(data.parentId, data);
+
+		const status = await this.prismaService.status.findUniqueOrThrow({
+			where: { id: data.statusId },
+			select: { category: true },
+		});
+
 		const prismaData = {
 			name: data.name,
 			description: data.description,
@@ -34,6 +117,11 @@ export class TaskService {
 			priorityId: data.priorityId,
 			assigneeId: data.assigneeId,
 			reporterId: data.reporterId,
+			projectId: data.projectId,
+			parentId: data.parentId,
+			startDate: data.startDate,
+			dueDate: data.dueDate,
+			completedAt: status.category === StatusCategory.DONE ? new Date() : null,
 		};
 		return this.prismaService.task.create({ data: prismaData });
 	}
@@ -43,40 +131,213 @@ export class TaskService {
 		user: JwtUserInfo,
 		data: Partial<Task> & UpdateTaskDto,
 	) {
-		if (data.unarchive) data.deletedAt = null;
+		const task = await this.prismaService.withArchived.task.findFirst({
+			where: {
+				id,
+				...this.accessWhere(user, CompanyMemberRole.MEMBER),
+				...(!data.unarchive && { deletedAt: null }),
+			},
+			select: {
+				projectId: true,
+				parentId: true,
+				_count: { select: { subtasks: true } },
+				statudId: true,
+				status: { select: { category: true } },
+				startDate: true,
+				dueDate: true,
+				priorityId: true,
+				assigneeId: true,
+				project: { select: { companyId: true } },
+			},
+		});
+		if (!task) throw new ForbiddenException("User can't update task");
 
-		if (!user.isAdmin) {
-			const canModify = await this.prismaService.task.findFirst({
-				where: { id, OR: [{ reporterId: user.id }, { assigneeId: user.id }] },
-				select: { id: true },
+		const currentCompanyId = task.project?.companyId ?? null;
+		let companyId = currentCompanyId;
+		const moved = !!data.projectId && data.projectId !== task.projectId;
+		// A hierarchy stays within one project
+		if (moved && (task.parentId || task._count.subtasks))
+			throw new BadRequestException(
+				"Subtasks and tasks with subtasks can't change project",
+			);
+		if (moved)
+			({ companyId } = await this.getWritableProject(data.projectId, user));
+		if (data.assigneeId && companyId)
+			await this.assertAssignable(companyId, data.assigneeId);
+		// Moving to another company's project needs that company's workflow too
+		if (moved || data.statusId || data.priorityId)
+			await this.assertWorkflowOf(companyId, {
+				statusId: data.statusId ?? task.statudId,
+				priorityId: data.priorityId ?? task.priorityId,
 			});
-			if (!canModify) throw new ForbiddenException("User can't update task");
+		// Another company has its own workflow, so only moves within one are checked
+		if (data.statusId && companyId === currentCompanyId)
+			await this.statusTransitionService.assertTransition(
+				task,
+				data.statusId,
+				user,
+			);
+		const startDate =
+			data.startDate !== undefined ? data.startDate : task.startDate;
+		const dueDate = data.dueDate !== undefined ? data.dueDate : task.dueDate;
+		this.assertDateRange(startDate, dueDate);
+
+		let completedAt: Date | null | undefined;
+		if (data.statusId && data.statusId !== task.statudId) {
+			const status = await this.prismaService.status.findUniqueOrThrow({
+				where: { id: data.statusId },
+				select: { category: true },
+			});
+			const done = status.category === StatusCategory.DONE;
+			const wasDone = task.status.category === StatusCategory.DONE;
+			if (done) await this.taskDependencyService.assertUnblocked(id);
+			if (done !== wasDone) completedAt = done ? new Date() : null;
 		}
+		// Labels are per company and don't come along to another one
+		if (companyId !== currentCompanyId)
+			await this.prismaService.taskLabel.deleteMany({
+				where: { taskId: id, label: { companyId: { not: companyId } } },
+			});
 
-		const prismaData = { ...data, updatedAt: new Date() };
+		const { deletedAt, unarchive, ...changes } = data;
+		if (deletedAt) await this.archiveService.archiveTask(id);
+		else if (unarchive) await this.archiveService.restoreTask(id);
+
+		const prismaData = { ...changes, updatedAt: new Date() };
+		if (completedAt !== undefined) prismaData.completedAt = completedAt;
+		// A new due date gets checked for being overdue again
+		if (
+			data.dueDate !== undefined &&
+			data.dueDate?.getTime() !== task.dueDate?.getTime()
+		)
+			prismaData.overdueAt = null;
 		if (data.statusId) {
 			prismaData.statudId = data.statusId;
 			delete prismaData.statusId;
 		}
-		return this.prismaService.task.update({ where: { id }, data: prismaData });
+		// Archiving went first, so the update has to reach archived tasks too
+		return this.prismaService.withArchived.task.update({
+			where: { id },
+			data: prismaData,
+		});
+	}
+
+	/** Puts the task under another parent, or makes it top-level without one. */
+	async moveTask(id: string, user: JwtUserInfo, parentId: string | null) {
+		const task = await this.getWritableTask(id, user);
+		if (parentId) await this.assertValidParent(parentId, task, id);
+
+		return this.prismaService.task.update({
+			where: { id },
+			data: { parentId, updatedAt: new Date() },
+		});
+	}
+
+	async addBlocker(id: string, user: JwtUserInfo, blockerId: string) {
+		await this.getWritableTask(id, user);
+		const blocker = await this.prismaService.task.findFirst({
+			where: { id: blockerId, ...this.accessWhere(user) },
+			select: { id: true },
+		});
+		if (!blocker) throw new BadRequestException('Blocker task does not exist');
+
+		await this.taskDependencyService.addBlocker(id, blocker.id);
+		return this.getTaskById(id, user);
+	}
+
+	async removeBlocker(id: string, user: JwtUserInfo, blockerId: string) {
+		await this.getWritableTask(id, user);
+		await this.taskDependencyService.removeBlocker(id, blockerId);
+	}
+
+	async addLabel(id: string, user: JwtUserInfo, labelId: string) {
+		const task = await this.getWritableTask(id, user);
+		const label = await this.prismaService.label.findFirst({
+			where: { id: labelId, companyId: task.project?.companyId },
+			select: { id: true },
+		});
+		if (!task.project || !label)
+			throw new BadRequestException(
+				"Label must belong to the project's company",
+			);
+		const existing = await this.prismaService.taskLabel.findUnique({
+			where: { taskId_labelId: { taskId: id, labelId } },
+		});
+		if (existing) throw new BadRequestException('Task already has the label');
+
+		await this.prismaService.taskLabel.create({
+			data: { taskId: id, labelId },
+		});
+		return this.getTaskById(id, user);
+	}
+
+	async removeLabel(id: string, user: JwtUserInfo, labelId: string) {
+		await this.getWritableTask(id, user);
+		const existing = await this.prismaService.taskLabel.findUnique({
+			where: { taskId_labelId: { taskId: id, labelId } },
+		});
+		if (!existing) throw new NotFoundException('Task does not have the label');
+
+		await this.prismaService.taskLabel.delete({
+			where: { taskId_labelId: { taskId: id, labelId } },
+		});
 	}
 
-	async getTasks(options: TasksPaginationOptionsDto, user: JwtUserInfo) {
-		const where: Prisma.TaskWhereInput = {};
-		if (!user.isAdmin)
-			where.OR = [{ reporterId: user.id }, { assigneeId: user.id }];
+	async getSubtasks(
+		id: string,
+		user: JwtUserInfo,
+		options: TasksPaginationOptionsDto,
+	) {
+		await this.getTaskById(id, user);
+		return this.getTasks(options, user, { parentId: id });
+	}
+
+	async getAvailableStatuses(id: string, user: JwtUserInfo) {
+		const task = await this.getTaskById(id, user);
+		return this.statusTransitionService.getAvailableStatuses(task, user);
+	}
+
+	async getTasks(
+		options: TasksPaginationOptionsDto,
+		user: JwtUserInfo,
+		scope: Pick<Prisma.TaskWhereInput, 'projectId' | 'parentId'> = {},
+	) {
+		const where: Prisma.TaskWhereInput = {
+			...this.accessWhere(user),
+			...archiveWhere(options, this.accessWhere(user, CompanyMemberRole.ADMIN)),
+			...scope,
+		};
+		const filters = [...this.labelWhere(options), ...this.dueWhere(options)];
+		if (filters.length)
+			where.AND = [
+				...((where.AND as Prisma.TaskWhereInput[]) ?? []),
+				...filters,
+			];
 		// if (options.search) where.name = { startsWith: options.search };
 
-		const items = await this.prismaService.task.findMany({
+		const sortOrder = options.sortOrder ?? 'desc';
+		const orderBy: Prisma.TaskOrderByWithRelationInput[] =
+			options.sortBy === 'priority'
+				? [{ priority: { weight: sortOrder } }, { createdAt: 'desc' }]
+				: options.sortBy === 'dueDate'
+					? [
+							{ dueDate: { sort: sortOrder, nulls: 'last' } },
+							{ createdAt: 'desc' },
+						]
+					: [{ createdAt: sortOrder }];
+
+		const items = await this.prismaService.withArchived.task.findMany({
 			where,
+			orderBy,
 			take: options.perPage,
 			skip: options.perPage * (options.page - 1),
+			include: taskInclude,
 		});
 
-		const count = await this.prismaService.task.count({ where });
+		const count = await this.prismaService.withArchived.task.count({ where });
 
 		return {
-			items,
+			items: await this.withDetails(items),
 			meta: {
 				page: options.page,
 				perPage: items.length,
@@ -85,4 +346,144 @@ export class TaskService {
 			},
 		};
 	}
+
+	/** Adds subtask progress, flattens dependencies to task ids and labels. */
+	private async withDetails(
+		tasks: Prisma.TaskGetPayload<{ include: typeof taskInclude }>[],
+	) {
+		const progress = await this.taskHierarchyService.getProgress(
+			tasks.map(({ id }) => id),
+		);
+		return tasks.map(({ blockedBy, blocks, labels, ...task }) => ({
+			...task,
+			labels: labels.map(({ label }) => label),
+			progress: progress.get(task.id),
+			blockedBy: blockedBy.map(({ blockerId }) => blockerId),
+			blocks: blocks.map(({ blockedId }) => blockedId),
+		}));
+	}
+
+	/** Tasks with any of the labels, or with all of them. */
+	private labelWhere(
+		options: TasksPaginationOptionsDto,
+	): Prisma.TaskWhereInput[] {
+		if (!options.labelIds?.length) return [];
+		if (options.labelMatch === 'all')
+			return options.labelIds.map((labelId) => ({
+				labels: { some: { labelId } },
+			}));
+		return [{ labels: { some: { labelId: { in: options.labelIds } } } }];
+	}
+
+	/** Due date filters, with weeks starting on Monday in server time. */
+	private dueWhere(
+		options: TasksPaginationOptionsDto,
+	): Prisma.TaskWhereInput[] {
+		const now = new Date();
+		switch (options.due) {
+			case 'overdue':
+				return [{ dueDate: { lt: now }, completedAt: null }];
+			case 'thisWeek': {
+				const weekStart = new Date(now);
+				weekStart.setHours(0, 0, 0, 0);
+				weekStart.setDate(weekStart.getDate() - ((weekStart.getDay() + 6) % 7));
+				const weekEnd = new Date(weekStart);
+				weekEnd.setDate(weekEnd.getDate() + 7);
+				return [{ dueDate: { gte: weekStart, lt: weekEnd } }];
+			}
+			case 'none':
+				return [{ dueDate: null }];
+			default:
+				return [];
+		}
+	}
+
+	private assertDateRange(startDate?: Date | null, dueDate?: Date | null) {
+		if (startDate && dueDate && startDate > dueDate)
+			throw new BadRequestException("Start date can't be after the due date");
+	}
+
+	private async getWritableTask(id: string, user: JwtUserInfo) {
+		const task = await this.prismaService.task.findFirst({
+			where: { id, ...this.accessWhere(user, CompanyMemberRole.MEMBER) },
+			select: { projectId: true, project: { select: { companyId: true } } },
+		});
+		if (!task) throw new ForbiddenException("User can't update task");
+		return task;
+	}
+
+	/** Parents have to be in the same project as their subtasks. */
+	private async assertValidParent(
+		parentId: string,
+		task: { projectId: string | null },
+		taskId?: string,
+	) {
+		const parent = await this.prismaService.task.findFirst({
+			where: { id: parentId, projectId: task.projectId },
+			select: { id: true },
+		});
+		if (!parent)
+			throw new BadRequestException(
+				'Parent task must belong to the same project',
+			);
+		await this.taskHierarchyService.assertCanNest(parentId, taskId);
+	}
+
+	/** A project the user may add tasks to. */
+	private async getWritableProject(projectId: string, user: JwtUserInfo) {
+		const project = await this.prismaService.project.findFirst({
+			where: {
+				id: projectId,
+				...(!hasPermission(user, 'task:manage') && {
+					company: this.companyService.membershipWhere(
+						user.id,
+						CompanyMemberRole.MEMBER,
+					),
+				}),
+			},
+			select: { companyId: true },
+		});
+		if (!project)
+			throw new ForbiddenException("User can't add tasks to project");
+		return project;
+	}
+
+	/**
+	 * Statuses and priorities come from the project's company. Tasks outside
+	 * a company use the defaults.
+	 */
+	private async assertWorkflowOf(
+		companyId: string | null,
+		data: { statusId: string; priorityId: string },
+	) {
+		const [status, priority] = await Promise.all([
+			this.prismaService.status.findFirst({
+				where: { id: data.statusId, companyId },
+				select: { id: true },
+			}),
+			this.prismaService.priority.findFirst({
+				where: { id: data.priorityId, companyId },
+				select: { id: true },
+			}),
+		]);
+		if (!status)
+			throw new BadRequestException(
+				"Status must belong to the project's company",
+			);
+		if (!priority)
+			throw new BadRequestException(
+				"Priority must belong to the project's company",
+			);
+	}
+
+	private async assertAssignable(companyId: string, assigneeId: string) {
+		const member = await this.prismaService.companyMember.findUnique({
+			where: { companyId_userId: { companyId, userId: assigneeId } },
+			select: { id: true },
+		});
+		if (!member)
+			throw new BadRequestException(
+				"Assignee must be a member of the project's company",
+			);
+	}
 }
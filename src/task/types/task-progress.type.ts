@@ -0,0 +1,7 @@
+import { StatusCategory } from '@prisma/client';
+
+export type TaskProgress = {
+	total: number;
+	completed: number;
+	byCategory: Record<StatusCategory, number>;
+};
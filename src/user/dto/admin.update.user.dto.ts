@@ -1,12 +1,6 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
 import { Exclude, Expose } from 'class-transformer';
-import {
-	IsBoolean,
-	IsEmail,
-	IsOptional,
-	IsString,
-	Length,
-} from 'class-validator';
+import { IsEmail, IsOptional, IsString, Length } from 'class-validator';
 
 @Exclude()
 export class AdminUpdateUserDto {
@@ -25,11 +19,4 @@ export class AdminUpdateUserDto {
 		default: 'user@email.com',
 	})
 	email: string;
-	@Expose()
-	@IsOptional()
-	@IsBoolean()
-	@ApiPropertyOptional({
-		default: false,
-	})
-	isAdmin: boolean;
 }
@@ -9,7 +9,7 @@ export class UserDto {
 	@Expose()
 	email: string;
 	@Expose()
-	deletedAt: Date;
+	emailVerifiedAt: Date;
 	@Expose()
-	isAdmin: boolean;
+	deletedAt: Date;
 }
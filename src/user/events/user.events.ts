@@ -0,0 +1,6 @@
+export const USER_UPDATED_EVENT = 'user.updated';
+export const USER_DELETED_EVENT = 'user.deleted';
+
+export class UserEvent {
+	constructor(readonly userId: string) {}
+}
@@ -1,7 +1,8 @@
 import { Body, Controller, Param, Put, UseGuards } from '@nestjs/common';
 import { ApiBearerAuth, ApiConsumes, ApiTags } from '@nestjs/swagger';
 import { plainToInstance } from 'class-transformer';
-import { IsAdminGuard } from 'src/auth/guards/is-admin.guard';
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
 import { UserService } from 'src/user/user.service';
 import { JwtAuthGuard } from './../auth/guards/jwt-auth.guard';
 import { AdminUpdateUserDto } from './dto/admin.update.user.dto';
@@ -15,7 +16,8 @@ export class UserAdminController {
 
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Put(':userId')
-	@UseGuards(JwtAuthGuard, new IsAdminGuard())
+	@UseGuards(JwtAuthGuard, PermissionsGuard)
+	@RequirePermissions('user:manage')
 	async update(
 		@Body() user: AdminUpdateUserDto,
 		@Param('userId') userId: string,
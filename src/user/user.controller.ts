@@ -10,6 +10,7 @@ import {
 } from '@nestjs/common';
 import { ApiBearerAuth, ApiConsumes, ApiTags } from '@nestjs/swagger';
 import { plainToInstance } from 'class-transformer';
+import { RequireTokenScope } from 'src/auth/decorators/token-scope.decorator';
 import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
 import { IApiRequest } from 'src/common/interfaces/app-request.interface';
 import { UserService } from 'src/user/user.service';
@@ -25,6 +26,7 @@ export class UserController {
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Get('me')
 	@UseGuards(JwtAuthGuard)
+	@RequireTokenScope('user:read')
 	async getMe(@Req() req: IApiRequest) {
 		const { user } = req;
 		return plainToInstance(UserDto, await this.userService.getOneById(user.id));
@@ -33,10 +35,16 @@ export class UserController {
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Put('me')
 	@UseGuards(JwtAuthGuard)
+	@RequireTokenScope('user:write')
 	async updateMe(@Body() body: UpdateUserDto, @Req() { user }: IApiRequest) {
+		const current = await this.userService.getOneById(user.id);
+		const emailChanged = body.email && body.email !== current.email;
 		return plainToInstance(
 			UserDto,
-			await this.userService.update(user.id, body),
+			await this.userService.update(user.id, {
+				...body,
+				...(emailChanged && { emailVerifiedAt: null }),
+			}),
 		);
 	}
 
@@ -50,6 +58,7 @@ export class UserController {
 	@ApiConsumes('application/x-www-form-urlencoded')
 	@Get(':userId')
 	@UseGuards(JwtAuthGuard)
+	@RequireTokenScope('user:read')
 	async getUserById(@Param('userId') userId: string) {
 		return plainToInstance(UserDto, await this.userService.getOneById(userId));
 	}
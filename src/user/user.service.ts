@@ -1,27 +1,63 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { User } from '@prisma/client';
 import { AuthSignUpDto } from 'src/auth/dto/auth.sign-up.dto';
+import {
+	DEFAULT_USER_ROLE,
+	SUPER_ADMIN_ROLE,
+} from 'src/common/constants/permissions.constants';
 import {
 	ADMIN_USER_EMAIL,
 	ADMIN_USER_ID,
 	ADMIN_USER_NAME,
 	ADMIN_USER_PASSWORD,
 } from 'src/common/constants/user.constants';
-import { PrismaService } from 'src/prisma/prisma.service';
+import {
+	PRISMA_CLIENT,
+	PrismaService,
+	PrismaTransactionClient,
+} from 'src/prisma/prisma.service';
+import {
+	USER_DELETED_EVENT,
+	USER_UPDATED_EVENT,
+	UserEvent,
+} from './events/user.events';
 
 @Injectable()
 export class UserService implements OnModuleInit {
-	constructor(private readonly prismaService: PrismaService) {}
-	async create(user: AuthSignUpDto): Promise<User> {
-		return await this.prismaService.user.create({ data: user });
+	constructor(
+		@Inject(PRISMA_CLIENT) private readonly prismaService: PrismaService,
+		private readonly eventEmitter: EventEmitter2,
+	) {}
+	/**
+	 * Creates the user with the default roles, or the given ones, in `tx` when
+	 * it's part of a larger transaction.
+	 */
+	async create(
+		user: Omit<AuthSignUpDto, 'invitationToken'> & Partial<User>,
+		roleNames?: string[],
+		tx: PrismaTransactionClient = this.prismaService,
+	): Promise<User> {
+		const roles = await tx.role.findMany({
+			where: roleNames ? { name: { in: roleNames } } : { isDefault: true },
+			select: { id: true },
+		});
+		return await tx.user.create({
+			data: {
+				...user,
+				roles: { create: roles.map(({ id }) => ({ roleId: id })) },
+			},
+		});
 	}
 	async update(id: string, user: Partial<User>) {
-		return await this.prismaService.user.update({
+		const updatedUser = await this.prismaService.user.update({
 			where: {
 				id,
 			},
 			data: user,
 		});
+		this.eventEmitter.emit(USER_UPDATED_EVENT, new UserEvent(id));
+		return updatedUser;
 	}
 	// async deleteUser(user: User) {
 	//   return await this.updateUser(user, new Date());
@@ -41,7 +77,20 @@ export class UserService implements OnModuleInit {
 		});
 	}
 	async deleteOne(userId: string) {
-		return this.update(userId, { deletedAt: new Date() });
+		const ownedCompanies = await this.prismaService.company.count({
+			where: { ownerId: userId, deletedAt: null },
+		});
+		if (ownedCompanies)
+			throw new BadRequestException(
+				'Transfer or archive owned companies before deleting the account',
+			);
+
+		const user = await this.update(userId, { deletedAt: new Date() });
+		await this.eventEmitter.emitAsync(
+			USER_DELETED_EVENT,
+			new UserEvent(userId),
+		);
+		return user;
 	}
 
 	async onModuleInit() {
@@ -50,11 +99,10 @@ export class UserService implements OnModuleInit {
 			email: ADMIN_USER_EMAIL,
 			password: ADMIN_USER_PASSWORD,
 			name: ADMIN_USER_NAME,
-			isAdmin: true,
 		};
 
 		const adminUser = await this.getOneByEmail(adminData.email);
 		if (adminUser) return;
-		return await this.create(adminData);
+		return await this.create(adminData, [DEFAULT_USER_ROLE, SUPER_ADMIN_ROLE]);
 	}
 }